@@ -0,0 +1,71 @@
+import { API_BASE_URL } from './room';
+
+export interface AuthUser {
+    userId: string;
+    name: string;
+    guest: boolean;
+}
+
+interface AuthResponse {
+    token: string;
+    user: AuthUser;
+}
+
+const TOKEN_KEY = 'authToken';
+
+export const authHeaders = (token: string | null): Record<string, string> =>
+    token ? { Authorization: `Bearer ${token}` } : {};
+
+const saveAuth = (response: AuthResponse): AuthUser => {
+    localStorage.setItem(TOKEN_KEY, response.token);
+    return response.user;
+};
+
+const postAuth = async (path: string, body: object = {}): Promise<AuthUser> => {
+    const response = await fetch(`${API_BASE_URL}/auth/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(localStorage.getItem(TOKEN_KEY)) },
+        body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.error || `Authentication failed: ${response.statusText}`);
+    }
+    return saveAuth(data as AuthResponse);
+};
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+/**
+ * The user behind the stored token, if the server still accepts it
+ */
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+    const token = getAuthToken();
+    if (!token) return null;
+
+    try {
+        const response = await fetch(`${API_BASE_URL}/auth/me`, { headers: authHeaders(token) });
+        if (!response.ok) return null;
+        const data = await response.json();
+        return data.user as AuthUser;
+    } catch (error) {
+        console.error("Error checking auth token:", error);
+        return null;
+    }
+};
+
+/**
+ * Make sure a valid token is stored, signing in as a guest when needed
+ */
+export const ensureAuth = async (): Promise<{ token: string; user: AuthUser }> => {
+    const user = await getCurrentUser() || await postAuth('guest');
+    return { token: getAuthToken()!, user };
+};
+
+export const login = (username: string, password: string) => postAuth('login', { username, password });
+
+export const register = (username: string, password: string) => postAuth('register', { username, password });
+
+export const logout = () => {
+    localStorage.removeItem(TOKEN_KEY);
+};
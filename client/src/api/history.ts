@@ -0,0 +1,31 @@
+import type { BetAnalytics, BetHistoryPage } from "@trader-master/shared";
+import { API_BASE_URL } from "./room";
+import { authHeaders, ensureAuth } from "./auth";
+
+export interface HistoryFilters {
+    symbol?: string;
+    kind?: 'bet' | 'combo';
+    status?: string;
+    /** settledAt lower bound, unix ms */
+    from?: number;
+}
+
+const getHistory = async <T>(path: string, params: Record<string, string | number | undefined>): Promise<T> => {
+    const { token } = await ensureAuth();
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') query.set(key, String(value));
+    });
+
+    const response = await fetch(`${API_BASE_URL}/history/${path}?${query}`, { headers: authHeaders(token) });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${path}: ${response.statusText}`);
+    }
+    return await response.json() as T;
+};
+
+export const getBetHistory = (filters: HistoryFilters, offset: number, limit: number) =>
+    getHistory<BetHistoryPage>('bets', { ...filters, offset, limit });
+
+export const getBetAnalytics = (filters: HistoryFilters) =>
+    getHistory<BetAnalytics>('analytics', { ...filters });
@@ -0,0 +1,17 @@
+import type { Leaderboard, LeaderboardMetric, LeaderboardPeriod } from "@trader-master/shared";
+import { API_BASE_URL } from "./room";
+
+export const getLeaderboard = async (period: LeaderboardPeriod, metric: LeaderboardMetric, roomId?: string): Promise<Leaderboard | null> => {
+    try {
+        const params = new URLSearchParams({ period, metric });
+        if (roomId) params.set('roomId', roomId);
+        const response = await fetch(`${API_BASE_URL}/leaderboard?${params}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch leaderboard: ${response.statusText}`);
+        }
+        return await response.json() as Leaderboard;
+    } catch (error) {
+        console.error("Error fetching leaderboard:", error);
+        return null;
+    }
+};
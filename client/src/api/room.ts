@@ -1,4 +1,4 @@
-import type { MarketRoomConfig } from "@trader-master/shared";
+import type { Candle, MarketRoomConfig } from "@trader-master/shared";
 export interface RoomListing {
     roomId: string;
     clients: number;
@@ -8,7 +8,7 @@ export interface RoomListing {
 
 const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
 const host = window.location.host;
-const API_BASE_URL = `${protocol === 'wss' ? 'https' : 'http'}://${host}/api`;
+export const API_BASE_URL = `${protocol === 'wss' ? 'https' : 'http'}://${host}/api`;
 
 export const getRoomMetadata = async (roomId: string): Promise<MarketRoomConfig | null> => {
     try {
@@ -37,3 +37,31 @@ export const getAvailableRooms = async (roomName: string): Promise<RoomListing[]
         return [];
     }
 };
+
+export interface CandlePage {
+    symbol: string;
+    timeframe: number;
+    from: number;
+    to: number;
+    candles: Candle[];
+}
+
+/**
+ * Recorded candles of a room's symbol, to page back beyond what the room streams
+ */
+export const getCandles = async (roomId: string, params: { from?: number; to?: number; tf?: number }): Promise<CandlePage | null> => {
+    try {
+        const query = new URLSearchParams();
+        Object.entries(params).forEach(([key, value]) => {
+            if (value !== undefined) query.set(key, String(value));
+        });
+        const response = await fetch(`${API_BASE_URL}/room/${roomId}/candles?${query}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch candles: ${response.statusText}`);
+        }
+        return await response.json() as CandlePage;
+    } catch (error) {
+        console.error("Error fetching candles:", error);
+        return null;
+    }
+};
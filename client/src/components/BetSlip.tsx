@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import * as Colyseus from '@colyseus/sdk';
+import { MarketState, MessageType } from '@trader-master/shared';
+import type { MarketRoomConfig, Quote } from '@trader-master/shared';
+import { useGameStore } from '../store/useGameStore';
+import { acceptQuote, getComboOdds, getStakeLimits, placeBet, placeCombo, requestQuote, validateComboPath, validateStake } from '../utils/betting';
+
+interface BetSlipProps {
+    room: Colyseus.Room<MarketState>;
+    roomConfig: MarketRoomConfig | null;
+}
+
+const formatTime = (time: number) => new Date(time * 1000).toLocaleTimeString();
+
+export const BetSlip: React.FC<BetSlipProps> = ({ room, roomConfig }) => {
+    const stake = useGameStore((state) => state.stake);
+    const betMode = useGameStore((state) => state.betMode);
+    const balance = useGameStore((state) => state.balance);
+    const setStake = useGameStore((state) => state.setStake);
+    const setBetMode = useGameStore((state) => state.setBetMode);
+    const setSelectedCellId = useGameStore((state) => state.setSelectedCellId);
+    const predictionCells = useGameStore((state) => state.predictionCells);
+    const pickedLegs = useGameStore((state) => state.comboLegs);
+    const setComboLegs = useGameStore((state) => state.setComboLegs);
+    const combos = useGameStore((state) => state.combos);
+    const draftBox = useGameStore((state) => state.draftBox);
+    const setDraftBox = useGameStore((state) => state.setDraftBox);
+    const quote = useGameStore((state) => state.quote);
+    const setQuote = useGameStore((state) => state.setQuote);
+    // Live odds: the cell keeps repricing while it sits in the slip
+    const selectedCell = useGameStore((state) => state.predictionCells.find(c => c.id === state.selectedCellId));
+
+    const [customAmount, setCustomAmount] = useState('');
+    const [clock, setClock] = useState(() => Date.now());
+
+    // Quotes for drawn boxes
+    useEffect(() => {
+        if (betMode !== 'draw') return;
+        return room.onMessage(MessageType.QUOTE, (data: Quote) => setQuote(data));
+    }, [room, betMode, setQuote]);
+
+    // Tick the quote countdown
+    useEffect(() => {
+        if (!quote) return;
+        const timer = setInterval(() => setClock(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [quote]);
+
+    const quoteSecondsLeft = quote ? Math.max(0, Math.ceil((quote.expiresAt - clock) / 1000)) : 0;
+
+    const limits = getStakeLimits(roomConfig);
+    const error = validateStake(stake, limits, balance);
+
+    // Visible legs show their live odds; legs culled out of view keep the odds they were picked at
+    const comboLegs = pickedLegs.map(leg => predictionCells.find(c => c.id === leg.id) ?? leg);
+    const comboOdds = getComboOdds(comboLegs, roomConfig);
+    const comboError = validateComboPath(comboLegs, roomConfig);
+    const recentCombos = combos.slice(-5).reverse();
+
+    const handleCustomAmount = (value: string) => {
+        setCustomAmount(value);
+        const amount = Number(value);
+        if (value !== '' && Number.isFinite(amount)) {
+            setStake(amount);
+        }
+    };
+
+    const handleConfirm = () => {
+        if (!selectedCell || error) return;
+        placeBet(room, selectedCell, stake);
+        setSelectedCellId(null);
+    };
+
+    const handlePlaceCombo = () => {
+        if (error || comboError) return;
+        placeCombo(room, comboLegs, stake, comboOdds);
+        setComboLegs([]);
+    };
+
+    const handleRequestQuote = () => {
+        if (!draftBox || error) return;
+        setQuote(null);
+        requestQuote(room, draftBox, stake);
+    };
+
+    const handleAcceptQuote = () => {
+        if (!quote || quoteSecondsLeft <= 0) return;
+        acceptQuote(room, quote);
+        setDraftBox(null);
+    };
+
+    return (
+        <div className="bet-slip">
+            <div className="bet-slip-row">
+                <span className="label">Stake</span>
+                <div className="bet-slip-chips">
+                    {limits.presets.map((preset) => (
+                        <button
+                            key={preset}
+                            className={stake === preset ? 'active' : ''}
+                            onClick={() => {
+                                setStake(preset);
+                                setCustomAmount('');
+                            }}
+                        >
+                            {preset}
+                        </button>
+                    ))}
+                    <input
+                        type="number"
+                        placeholder="Custom"
+                        min={limits.minBet}
+                        max={limits.maxBet}
+                        value={customAmount}
+                        onChange={(e) => handleCustomAmount(e.target.value)}
+                    />
+                </div>
+                <span className="bet-slip-limits">{limits.minBet} - {limits.maxBet}</span>
+            </div>
+
+            <div className="bet-slip-row">
+                <span className="label">Mode</span>
+                <div className="mode-switch">
+                    <button className={betMode === 'confirm' ? 'active' : ''} onClick={() => setBetMode('confirm')}>
+                        Confirm
+                    </button>
+                    <button className={betMode === 'one-click' ? 'active' : ''} onClick={() => setBetMode('one-click')}>
+                        One-click
+                    </button>
+                    <button className={betMode === 'combo' ? 'active' : ''} onClick={() => setBetMode('combo')}>
+                        Combo
+                    </button>
+                    <button className={betMode === 'draw' ? 'active' : ''} onClick={() => setBetMode('draw')}>
+                        Draw
+                    </button>
+                </div>
+            </div>
+
+            {betMode === 'confirm' && (
+                <div className="bet-slip-row">
+                    {selectedCell ? (
+                        <>
+                            <span>
+                                {selectedCell.lowPrice} - {selectedCell.highPrice} @ {formatTime(selectedCell.startTime)}-{formatTime(selectedCell.endTime)}
+                            </span>
+                            <span>Odds {selectedCell.odds.toFixed(2)}</span>
+                            <span className="bet-slip-payout">Payout {(stake * selectedCell.odds).toFixed(2)}</span>
+                            <button className="bet-slip-confirm" disabled={!!error} onClick={handleConfirm}>
+                                Place bet
+                            </button>
+                            <button onClick={() => setSelectedCellId(null)}>Clear</button>
+                        </>
+                    ) : (
+                        <span className="label">Click a cell on the chart to add it to the slip</span>
+                    )}
+                </div>
+            )}
+
+            {betMode === 'combo' && (
+                <div className="bet-slip-row">
+                    {comboLegs.length > 0 ? (
+                        <>
+                            <span>
+                                {comboLegs.map((leg, i) => `${i + 1}: ${leg.lowPrice}-${leg.highPrice} @ ${formatTime(leg.startTime)}`).join(' → ')}
+                            </span>
+                            <span>Odds {comboOdds.toFixed(2)}</span>
+                            <span className="bet-slip-payout">Payout {(stake * comboOdds).toFixed(2)}</span>
+                            <button className="bet-slip-confirm" disabled={!!error || !!comboError} onClick={handlePlaceCombo}>
+                                Place combo
+                            </button>
+                            <button onClick={() => setComboLegs([])}>Clear</button>
+                        </>
+                    ) : (
+                        <span className="label">Click one cell per column to build a price path</span>
+                    )}
+                </div>
+            )}
+
+            {betMode === 'draw' && (
+                <div className="bet-slip-row">
+                    {draftBox ? (
+                        <>
+                            <span>
+                                {draftBox.lowPrice} - {draftBox.highPrice} @ {formatTime(draftBox.startTime)}-{formatTime(draftBox.endTime)}
+                            </span>
+                            {quote ? (
+                                <>
+                                    <span>Odds {quote.odds.toFixed(2)}</span>
+                                    <span className="bet-slip-payout">Payout {(quote.amount * quote.odds).toFixed(2)}</span>
+                                    <span className="bet-slip-limits">{quoteSecondsLeft > 0 ? `Expires in ${quoteSecondsLeft}s` : 'Expired'}</span>
+                                    <button className="bet-slip-confirm" disabled={quoteSecondsLeft <= 0} onClick={handleAcceptQuote}>
+                                        Accept {quote.amount}
+                                    </button>
+                                </>
+                            ) : (
+                                <span className="label">Waiting for quote...</span>
+                            )}
+                            <button disabled={!!error} onClick={handleRequestQuote}>Re-quote</button>
+                            <button onClick={() => setDraftBox(null)}>Clear</button>
+                        </>
+                    ) : (
+                        <span className="label">Drag on the chart to draw a time and price range</span>
+                    )}
+                </div>
+            )}
+
+            {betMode === 'combo' && comboLegs.length > 0 && comboError && <div className="bet-slip-error">{comboError}</div>}
+            {error && <div className="bet-slip-error">{error}</div>}
+
+            {recentCombos.length > 0 && (
+                <div className="bet-slip-row">
+                    <span className="label">Combos</span>
+                    {recentCombos.map((combo) => (
+                        <span key={combo.id} className={`bet-slip-combo ${combo.status}`}>
+                            {combo.legs.map(leg => leg.status === 'won' ? '✓' : leg.status === 'lost' ? '✗' : leg.status === 'void' ? '-' : '•').join('')}
+                            {' '}{combo.amount} @ {combo.odds.toFixed(2)}
+                            {combo.status === 'won' && ` +${Math.round(combo.payout)}`}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
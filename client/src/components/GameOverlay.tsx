@@ -1,10 +1,12 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import type { IChartApi, ISeriesApi } from 'lightweight-charts';
 import * as Colyseus from '@colyseus/sdk';
 import { MarketState, MessageType } from '@trader-master/shared';
-import type { MarketRoomConfig } from '@trader-master/shared';
+import type { BetQuote, MarketRoomConfig, PriceBox, ViewportPayload } from '@trader-master/shared';
 import { GridCanvas } from './GridCanvas';
 import { useGameStore } from '../store/useGameStore';
+import { getStakeLimits, placeBet, requestQuote, toggleComboLeg, validateStake } from '../utils/betting';
+import { getChartViewport } from '../utils/viewport';
 
 interface GameOverlayProps {
     chart: IChartApi;
@@ -18,6 +20,68 @@ interface GameOverlayProps {
 export const GameOverlay: React.FC<GameOverlayProps> = ({ chart, series, room, lastTime, lastPrice, roomConfig }) => {
     const bets = useGameStore((state) => state.bets);
     const predictionCells = useGameStore((state) => state.predictionCells);
+    const selectedCellId = useGameStore((state) => state.selectedCellId);
+    const combos = useGameStore((state) => state.combos);
+    const comboLegs = useGameStore((state) => state.comboLegs);
+    const comboCellIds = useMemo(() => comboLegs.map(leg => leg.id), [comboLegs]);
+    const betMode = useGameStore((state) => state.betMode);
+    const draftBox = useGameStore((state) => state.draftBox);
+    const boxQuote = useGameStore((state) => state.quote);
+    const timeframe = useGameStore((state) => state.timeframe);
+    const [quoteBetId, setQuoteBetId] = useState<string | null>(null);
+    const [quote, setQuote] = useState<BetQuote | null>(null);
+
+    // The panel closes by itself once the bet is no longer pending
+    const quotedBet = bets.find(b => b.id === quoteBetId && b.status === 'pending');
+    const activeQuoteBetId = quotedBet ? quotedBet.id : null;
+
+    // Keep the exit quote fresh while the panel is open
+    useEffect(() => {
+        if (!activeQuoteBetId) return;
+        const off = room.onMessage(MessageType.BET_QUOTE, (data: BetQuote) => {
+            if (data.betId === activeQuoteBetId) setQuote(data);
+        });
+        room.send(MessageType.QUOTE_BET, { betId: activeQuoteBetId });
+        const timer = setInterval(() => room.send(MessageType.QUOTE_BET, { betId: activeQuoteBetId }), 1000);
+        return () => {
+            off();
+            clearInterval(timer);
+        };
+    }, [room, activeQuoteBetId]);
+
+    // Tell the server which part of the chart is on screen so it only syncs the cells around it.
+    // The price axis follows the price every tick, so check once a second and on scroll / zoom.
+    useEffect(() => {
+        let lastSent: ViewportPayload | null = null;
+        const report = () => {
+            const viewport = getChartViewport(chart, series, timeframe);
+            if (!viewport) return;
+            // Skip moves smaller than a tenth of the screen; the server adds a margin around the viewport
+            const width = viewport.toTime - viewport.fromTime;
+            const height = viewport.highPrice - viewport.lowPrice;
+            const unchanged = lastSent
+                && Math.abs(lastSent.fromTime - viewport.fromTime) < width * 0.1
+                && Math.abs(lastSent.toTime - viewport.toTime) < width * 0.1
+                && Math.abs(lastSent.lowPrice - viewport.lowPrice) < height * 0.1
+                && Math.abs(lastSent.highPrice - viewport.highPrice) < height * 0.1;
+            if (unchanged) return;
+            lastSent = viewport;
+            room.send(MessageType.SET_VIEWPORT, viewport);
+        };
+
+        report();
+        const timer = setInterval(report, 1000);
+        chart.timeScale().subscribeVisibleLogicalRangeChange(report);
+        return () => {
+            clearInterval(timer);
+            chart.timeScale().unsubscribeVisibleLogicalRangeChange(report);
+        };
+    }, [chart, series, room, timeframe]);
+
+    const closeQuote = () => {
+        setQuoteBetId(null);
+        setQuote(null);
+    };
 
     // Handle Chart Clicks for Betting
     const handleCellClick = useCallback((cellId: string) => {
@@ -26,31 +90,48 @@ export const GameOverlay: React.FC<GameOverlayProps> = ({ chart, series, room, l
 
          if (!clickedCell) return;
 
+         // Combo mode: build the path (a cell with a single bet can still be a combo leg)
+         const { comboLegs, setComboLegs } = useGameStore.getState();
+         if (useGameStore.getState().betMode === 'combo') {
+             setComboLegs(toggleComboLeg(comboLegs, clickedCell, roomConfig));
+             return;
+         }
+
          const currentBets = useGameStore.getState().bets;
-         const existingBet = currentBets.find(b => b.cellId === clickedCell.id && b.ownerId === room.sessionId);
+         const existingBet = currentBets.find(b => b.cellId === clickedCell.id && b.ownerId === useGameStore.getState().userId);
 
          if (existingBet) {
-             alert("You have already placed a bet on this cell!");
+             if (existingBet.status === 'pending') {
+                 // Offer cancellation / cash-out for the open bet
+                 setQuote(null);
+                 setQuoteBetId(existingBet.id);
+             } else {
+                 useGameStore.getState().showNotice("You have already placed a bet on this cell");
+             }
              return;
          }
 
-         const betAmount = 100;
+         const { stake, betMode, balance, setSelectedCellId } = useGameStore.getState();
+
+         // Confirm mode: pick the cell into the bet slip
+         if (betMode === 'confirm') {
+             setSelectedCellId(clickedCell.id);
+             return;
+         }
 
-         const currentBalance = useGameStore.getState().balance;
-         if (currentBalance < betAmount) {
-             alert("Insufficient balance!");
+         const error = validateStake(stake, getStakeLimits(roomConfig), balance);
+         if (error) {
+             useGameStore.getState().showNotice(error);
              return;
          }
+         placeBet(room, clickedCell, stake);
+    }, [room, roomConfig]);
 
-         // Place Bet
-         const bet = {
-             cellId: clickedCell.id,
-             amount: betAmount, // Default amount
-             currency: 'USD'
-         };
-         console.log('Placing bet on cell:', clickedCell.id, bet);
-         // Emit event to server
-         room.send(MessageType.PLACE_BET, bet);
+    // Draw mode: quote the freshly drawn box with the current stake
+    const handleBoxDrawn = useCallback((box: PriceBox) => {
+        const { stake, setDraftBox } = useGameStore.getState();
+        setDraftBox(box);
+        requestQuote(room, box, stake);
     }, [room]);
 
     return (
@@ -66,8 +147,42 @@ export const GameOverlay: React.FC<GameOverlayProps> = ({ chart, series, room, l
                 lastTime={lastTime}
                 lastPrice={lastPrice}
                 roomConfig={roomConfig}
+                timeframe={timeframe}
+                selectedCellId={selectedCellId}
+                combos={combos}
+                comboCellIds={comboCellIds}
                 onCellClick={handleCellClick}
+                drawMode={betMode === 'draw'}
+                draftBox={draftBox}
+                draftLabel={boxQuote ? `x${boxQuote.odds}` : '...'}
+                onBoxDrawn={handleBoxDrawn}
             />
+            {quotedBet && (
+                <div className="bet-quote-panel">
+                    <div className="bet-quote-title">
+                        Bet {quotedBet.amount} @ {quotedBet.odds}
+                    </div>
+                    {!quote ? (
+                        <div>Fetching quote...</div>
+                    ) : (
+                        <>
+                            <button
+                                disabled={quote.cancelRefund === null}
+                                onClick={() => room.send(MessageType.CANCEL_BET, { betId: quotedBet.id })}
+                            >
+                                {quote.cancelRefund === null ? 'Cancel (locked)' : `Cancel: refund ${quote.cancelRefund.toFixed(2)}`}
+                            </button>
+                            <button
+                                disabled={quote.cashOutValue === null}
+                                onClick={() => room.send(MessageType.CASH_OUT, { betId: quotedBet.id, value: quote.cashOutValue ?? undefined })}
+                            >
+                                {quote.cashOutValue === null ? 'Cash out (closed)' : `Cash out: ${quote.cashOutValue.toFixed(2)}`}
+                            </button>
+                        </>
+                    )}
+                    <button className="bet-quote-close" onClick={closeQuote}>Close</button>
+                </div>
+            )}
         </div>
     );
 };
@@ -1,10 +1,35 @@
 import React, { useEffect, useState, useRef } from 'react';
-import type { IChartApi, ISeriesApi, UTCTimestamp } from 'lightweight-charts';
-import type { BetData as BetBox, PredictionCellData, MarketRoomConfig } from '@trader-master/shared';
+import type { IChartApi, ISeriesApi, Logical, UTCTimestamp } from 'lightweight-charts';
+import type { BetData as BetBox, ComboBetData, ComboLegData, PredictionCellData, MarketRoomConfig, PriceBox } from '@trader-master/shared';
 import { Application, Graphics, Text, TextStyle, Container, Rectangle } from 'pixi.js';
 import { bsCallPrice, bsPutPrice, RISK_FREE_RATE, VOLATILITY } from '../utils/pricing';
 
 const RECENT_SETTLEMENT_WINDOW = 20;
+// Pseudo cell id for the box being drawn / quoted
+const DRAFT_BOX_ID = '__draft__';
+
+type ChartPoint = { time: number; price: number };
+
+// Anything drawn on the grid: a prediction cell, a bet on a custom box, or the draft box
+type GridBox = PriceBox & { id: string; odds?: number; probability?: number };
+
+// Custom box bets have no prediction cell, so they are drawn from the bet itself
+const customBetBox = (bet: BetBox): GridBox => ({
+    id: bet.cellId,
+    startTime: bet.startTime,
+    endTime: bet.endTime,
+    lowPrice: bet.lowPrice,
+    highPrice: bet.highPrice,
+    odds: bet.odds,
+});
+
+// Normalize a drag from a to b into a box on whole seconds and cents
+const toBox = (a: ChartPoint, b: ChartPoint): PriceBox => ({
+    startTime: Math.floor(Math.min(a.time, b.time)),
+    endTime: Math.ceil(Math.max(a.time, b.time)),
+    lowPrice: Math.round(Math.min(a.price, b.price) * 100) / 100,
+    highPrice: Math.round(Math.max(a.price, b.price) * 100) / 100,
+});
 
 interface GridCanvasProps {
     chart: IChartApi;
@@ -14,11 +39,22 @@ interface GridCanvasProps {
     lastTime: number | null;
     lastPrice: number | null;
     roomConfig: MarketRoomConfig | null;
+    /** Candle period of the chart in seconds (default 1) */
+    timeframe?: number;
+    selectedCellId?: string | null;
+    combos?: ComboBetData[];
+    comboCellIds?: string[];
     onCellClick?: (cellId: string) => void;
+    /** Drag on the chart to draw a custom box instead of clicking cells */
+    drawMode?: boolean;
+    /** Box awaiting a quote / acceptance, and the text shown inside it */
+    draftBox?: PriceBox | null;
+    draftLabel?: string;
+    onBoxDrawn?: (box: PriceBox) => void;
 }
 
 export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
-    const { chart, series, bets, predictionCells, lastTime, lastPrice, roomConfig } = props;
+    const { chart, series, bets, predictionCells, lastTime, lastPrice, roomConfig, timeframe = 1, selectedCellId, combos, comboCellIds, draftBox, draftLabel } = props;
     const overlayRef = useRef<HTMLDivElement>(null);
     const appRef = useRef<Application | null>(null);
     const gridGraphicsRef = useRef<Graphics | null>(null);
@@ -29,6 +65,10 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
     propsRef.current = props;
 
     const [pixiReady, setPixiReady] = useState(false);
+
+    // Box being dragged out in draw mode
+    const dragStartRef = useRef<ChartPoint | null>(null);
+    const [dragBox, setDragBox] = useState<PriceBox | null>(null);
     
     // Sync bets position on chart scroll/zoom
     const [renderTrigger, setRenderTrigger] = useState(0);
@@ -59,102 +99,121 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
                 app.canvas.style.pointerEvents = 'auto'; // Ensure canvas captures events
                 app.canvas.style.zIndex = '100';
                 
-                // Attach Click Handler (Native DOM Event) once
-                const handlePointerDown = (e: PointerEvent) => {
-                    // Access latest props via ref
-                    const { onCellClick, chart, series, predictionCells } = propsRef.current;
+                // Convert a pointer position to chart time / price (time is extrapolated over the future area)
+                const pointToTimePrice = (e: PointerEvent): ChartPoint | null => {
+                    const { chart, series } = propsRef.current;
+                    const timeframe = propsRef.current.timeframe || 1;
+                    const rect = app.canvas.getBoundingClientRect();
+                    const x = e.clientX - rect.left;
+                    const y = e.clientY - rect.top;
+
+                    const timeScale = chart.timeScale();
                     
-                    console.debug('Canvas pointerdown:', e.clientX, e.clientY);
+                    // Try standard conversion first (only exact on 1s bars; coarser bars span several seconds)
+                    let t = timeframe === 1 ? timeScale.coordinateToTime(x) as number | null : null;
                     
-                    if (onCellClick && app.canvas) {
-                        const rect = app.canvas.getBoundingClientRect();
-                        const x = e.clientX - rect.left;
-                        const y = e.clientY - rect.top;
-                        
-                        console.debug('Click relative to canvas:', x, y, 'Rect:', rect);
-
-                        const timeScale = chart.timeScale();
-                        
-                        // Try standard conversion first
-                        let t = timeScale.coordinateToTime(x) as number | null;
+                    // Future time estimation if needed
+                    if (t === null) {
+                        const logical = timeScale.coordinateToLogical(x);
+                        const logicalRange = timeScale.getVisibleLogicalRange();
                         
-                        // Future time estimation if needed
-                        if (t === null) {
-                            const logical = timeScale.coordinateToLogical(x);
-                            const logicalRange = timeScale.getVisibleLogicalRange();
+                        if (logical !== null && logicalRange) {
+                            // Estimate interval using visible range
+                            const startLogical = Math.floor(logicalRange.from);
+                            const endLogical = Math.ceil(logicalRange.to);
                             
-                            if (logical !== null && logicalRange) {
-                                // Estimate interval using visible range
-                                const startLogical = Math.floor(logicalRange.from);
-                                const endLogical = Math.ceil(logicalRange.to);
-                                
-                                // Ensure we have a valid range to calculate interval
-                                if (endLogical > startLogical) {
-                                    // Use explicit type casting for internal Lightweight Charts API compatibility if needed, 
-                                    // but try public API first. coordinateToTime may return null for out of range indices.
-                                    // We need to find two valid points to calculate the interval (seconds per logical index).
-                                    
-                                    let t1: number | null = null;
-                                    let l1: number | null = null;
-                                    let t2: number | null = null;
-                                    let l2: number | null = null;
-
-                                    // Scan for valid points
-                                    for (let i = startLogical; i <= endLogical; i++) {
-                                        const time = timeScale.coordinateToTime(timeScale.logicalToCoordinate(i as any)!);
-                                        if (time !== null) {
-                                            if (t1 === null) {
-                                                t1 = time as number;
-                                                l1 = i;
-                                            } else if (i > l1! + 5) { // Ensure some distance for accuracy
-                                                t2 = time as number;
-                                                l2 = i;
-                                                break;
-                                            }
+                            // Ensure we have a valid range to calculate interval
+                            if (endLogical > startLogical) {
+                                // We need to find two valid points to calculate the interval (seconds per logical index).
+                                let t1: number | null = null;
+                                let l1: number | null = null;
+                                let t2: number | null = null;
+                                let l2: number | null = null;
+
+                                // Scan for valid points
+                                for (let i = startLogical; i <= endLogical; i++) {
+                                    const time = timeScale.coordinateToTime(timeScale.logicalToCoordinate(i as Logical)!);
+                                    if (time !== null) {
+                                        if (t1 === null) {
+                                            t1 = time as number;
+                                            l1 = i;
+                                        } else if (i > l1! + 5) { // Ensure some distance for accuracy
+                                            t2 = time as number;
+                                            l2 = i;
+                                            break;
                                         }
                                     }
+                                }
 
-                                    // If we found two points, interpolate/extrapolate
-                                    if (t1 !== null && t2 !== null && l1 !== null && l2 !== null) {
-                                        const interval = (t2 - t1) / (l2 - l1);
-                                        t = t1 + (logical - l1) * interval;
-                                    } else if (t1 !== null && l1 !== null) {
-                                        // Fallback with default interval (e.g., 1s or 30s depending on bar spacing)
-                                        // Assuming 1s per bar if we can't determine
-                                        const defaultInterval = 1; 
-                                        t = t1 + (logical - l1) * defaultInterval;
-                                    }
+                                // If we found two points, interpolate/extrapolate
+                                if (t1 !== null && t2 !== null && l1 !== null && l2 !== null) {
+                                    const interval = timeframe > 1 ? timeframe : (t2 - t1) / (l2 - l1);
+                                    // A bar at time b covers the seconds b .. b + timeframe - 1, centred on the bar
+                                    t = t1 + (logical - l1) * interval + (timeframe - 1) / 2;
+                                } else if (t1 !== null && l1 !== null) {
+                                    // Assuming one timeframe per bar if we can't determine
+                                    t = t1 + (logical - l1) * timeframe + (timeframe - 1) / 2;
                                 }
                             }
                         }
+                    }
 
-                        const p = series.coordinateToPrice(y);
-                        console.log('Click coordinates:', x, y, 'Time:', t, 'Price:', p);
+                    const p = series.coordinateToPrice(y);
+                    if (t === null || p === null) return null;
+                    return { time: t, price: p };
+                };
+
+                // Attach Pointer Handlers (Native DOM Events) once
+                const handlePointerDown = (e: PointerEvent) => {
+                    // Access latest props via ref
+                    const { onCellClick, onBoxDrawn, drawMode, predictionCells } = propsRef.current;
+
+                    const point = pointToTimePrice(e);
+                    if (!point) return;
+
+                    // Draw mode: start dragging out a custom box
+                    if (drawMode && onBoxDrawn) {
+                        dragStartRef.current = point;
+                        setDragBox(null);
+                        return;
+                    }
+                    
+                    if (onCellClick) {
+                        const { time: t, price: p } = point;
+                        const clickedCell = predictionCells.find(c => 
+                           t >= c.startTime && t <= c.endTime && 
+                           p >= c.lowPrice && p <= c.highPrice
+                        );
                         
-                        if (t !== null && p !== null) {
-                            const clickedCell = predictionCells.find(c => 
-                               t! >= c.startTime && t! <= c.endTime && 
-                               p >= c.lowPrice && p <= c.highPrice
-                            );
-                            
-                            if (clickedCell) {
-                                console.log('Cell clicked:', clickedCell.id);
-                                onCellClick(clickedCell.id);
-                            } else {
-                                console.log('No cell found at click location');
-                                // Debug: print a few cells to see why it missed
-                                if (predictionCells.length > 0) {
-                                    const c = predictionCells[0];
-                                    console.log('Sample cell:', c.startTime, c.endTime, c.lowPrice, c.highPrice);
-                                } else {
-                                    console.log('No prediction cells available');
-                                }
-                            }
+                        if (clickedCell) {
+                            onCellClick(clickedCell.id);
                         }
                     }
                 };
+
+                const handlePointerMove = (e: PointerEvent) => {
+                    const start = dragStartRef.current;
+                    if (!start) return;
+                    const point = pointToTimePrice(e);
+                    if (point) setDragBox(toBox(start, point));
+                };
+
+                const handlePointerUp = (e: PointerEvent) => {
+                    const start = dragStartRef.current;
+                    if (!start) return;
+                    dragStartRef.current = null;
+                    setDragBox(null);
+
+                    const point = pointToTimePrice(e);
+                    const box = point ? toBox(start, point) : null;
+                    if (box && box.endTime > box.startTime && box.highPrice > box.lowPrice) {
+                        propsRef.current.onBoxDrawn?.(box);
+                    }
+                };
                 
                 app.canvas.addEventListener('pointerdown', handlePointerDown);
+                app.canvas.addEventListener('pointermove', handlePointerMove);
+                app.canvas.addEventListener('pointerup', handlePointerUp);
                 // Store handler for cleanup if needed (though component unmount cleans up app)
             }
             
@@ -305,7 +364,9 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
             refTime = p1.time;
             refLogical = p1.logical;
             
-            if (p2) {
+            if (timeframe > 1) {
+                avgInterval = timeframe;
+            } else if (p2) {
                 avgInterval = (p2.time - p1.time) / (p2.logical - p1.logical);
             }
         } else {
@@ -319,38 +380,42 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
              }
         }
 
+        // Time to x: exact on 1s bars, otherwise projected from the reference bar.
+        // A bar at time b covers the seconds b .. b + timeframe - 1, so its centre sits at b + (timeframe - 1) / 2
+        const timeToX = (time: number): number | null => {
+            if (timeframe === 1) {
+                const x = timeScale.timeToCoordinate(time as UTCTimestamp);
+                if (x !== null) return x;
+            }
+            if (refTime === null || refLogical === null) return null;
+
+            const targetLogical = (refLogical + (time - refTime - (timeframe - 1) / 2) / avgInterval) as Logical;
+            return timeScale.logicalToCoordinate(targetLogical);
+        };
+
         // Create Map for efficient bet lookup
         const betsMap = new Map<string, BetBox>();
         bets.forEach(bet => {
             if (bet.cellId) betsMap.set(bet.cellId, bet);
         });
 
-        const drawCell = (cell: PredictionCellData) => {
-            if (lastTime !== null && lastTime > cell.endTime && !betsMap.has(cell.id)) {
+        // Legs of the player's combos, and the path currently being built
+        const comboLegsMap = new Map<string, ComboLegData>();
+        combos?.forEach(combo => {
+            combo.legs.forEach(leg => comboLegsMap.set(leg.cellId, leg));
+        });
+        const pathCenters = new Map<string, { x: number; y: number }>();
+
+        const drawCell = (cell: GridBox, label?: string) => {
+            if (lastTime !== null && lastTime > cell.endTime && !betsMap.has(cell.id) && !comboLegsMap.has(cell.id)) {
                 return;
             }
 
-            let x1 = timeScale.timeToCoordinate(cell.startTime as UTCTimestamp);
-            let x2 = timeScale.timeToCoordinate(cell.endTime as UTCTimestamp);
+            const x1 = timeToX(cell.startTime);
+            const x2 = timeToX(cell.endTime);
             const y1 = series.priceToCoordinate(cell.highPrice);
             const y2 = series.priceToCoordinate(cell.lowPrice);
 
-            // Project x1 if null (future)
-            if (x1 === null && refTime !== null && refLogical !== null) {
-                const diffSec = (cell.startTime as number) - refTime;
-                const targetLogical = refLogical + (diffSec / avgInterval);
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                x1 = timeScale.logicalToCoordinate(targetLogical as any);
-            }
-
-            // Project x2 if null (future)
-            if (x2 === null && refTime !== null && refLogical !== null) {
-                const diffSec = (cell.endTime as number) - refTime;
-                const targetLogical = refLogical + (diffSec / avgInterval);
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                x2 = timeScale.logicalToCoordinate(targetLogical as any);
-            }
-
             if (x1 === null || x2 === null || y1 === null || y2 === null) {
                 return;
             }
@@ -425,6 +490,16 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
                         fillAlpha = 0.3;
                         strokeColor = 0xE74C3C;
                         strokeAlpha = 0.8;
+                    } else if (bet.status === 'refunded' || bet.status === 'cancelled') {
+                        fillColor = 0x808080;
+                        fillAlpha = 0.2;
+                        strokeColor = 0x808080;
+                        strokeAlpha = 0.6;
+                    } else if (bet.status === 'cashed_out') {
+                        fillColor = 0x2962FF;
+                        fillAlpha = 0.3;
+                        strokeColor = 0x2962FF;
+                        strokeAlpha = 0.8;
                     } else {
                         fillColor = 0xFFD700;
                         fillAlpha = 0.2;
@@ -435,13 +510,41 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
                     textColor = '#ffffff';
 
                     if ((bet.status === 'won' || bet.status === 'lost') && lastTime !== null) {
-                        const dt = lastTime - bet.startTime;
+                        const dt = lastTime - bet.endTime;
                         if (dt <= RECENT_SETTLEMENT_WINDOW) {
                             const factor = Math.max(0, 1 - Math.max(0, dt) / RECENT_SETTLEMENT_WINDOW);
                             fillAlpha = Math.min(1, fillAlpha + 0.3 * factor);
                             strokeAlpha = Math.min(1, strokeAlpha + 0.4 * factor);
                         }
                     }
+            } else if (comboCellIds?.includes(cell.id)) {
+                // Leg of the combo path being built
+                fillColor = 0x00BCD4;
+                fillAlpha = 0.2;
+                strokeColor = 0x00BCD4;
+                strokeAlpha = 1;
+                textAlpha = 1;
+            } else if (comboLegsMap.has(cell.id)) {
+                const legStatus = comboLegsMap.get(cell.id)!.status;
+                fillColor = legStatus === 'won' ? 0x2ECC71 : legStatus === 'lost' ? 0xE74C3C : legStatus === 'void' ? 0x808080 : 0x00BCD4;
+                fillAlpha = 0.2;
+                strokeColor = fillColor;
+                strokeAlpha = 0.8;
+                textAlpha = 1;
+            } else if (cell.id === DRAFT_BOX_ID) {
+                // Custom box being drawn or quoted
+                fillColor = 0xFF9800;
+                fillAlpha = 0.2;
+                strokeColor = 0xFF9800;
+                strokeAlpha = 1;
+                textAlpha = 1;
+            } else if (cell.id === selectedCellId) {
+                // Selected in the bet slip, awaiting confirmation
+                fillColor = 0xFFFFFF;
+                fillAlpha = 0.15;
+                strokeColor = 0xFFFFFF;
+                strokeAlpha = 1;
+                textAlpha = 1;
             }
 
             // Draw Rect (using physical pixels)
@@ -456,6 +559,18 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
                 displayText = '+' + Math.round(v).toString();
             } else if (bet && bet.status === 'lost') {
                 displayText = '-' + Math.round(bet.amount).toString();
+            } else if (bet && bet.status === 'refunded') {
+                displayText = 'Refunded';
+            } else if (bet && bet.status === 'cancelled') {
+                displayText = 'Cancelled';
+            } else if (bet && bet.status === 'cashed_out') {
+                displayText = 'Cashed ' + Math.round(bet.payout).toString();
+            } else if (label !== undefined) {
+                displayText = label;
+            } else if (comboCellIds?.includes(cell.id)) {
+                displayText = `Leg ${comboCellIds.indexOf(cell.id) + 1}`;
+            } else if (comboLegsMap.has(cell.id)) {
+                displayText = 'Combo';
             } else if (cell.probability !== undefined) {
                 displayText = (cell.probability * 100).toFixed(1) + '%';
             } else {
@@ -484,16 +599,37 @@ export const GridCanvas: React.FC<GridCanvasProps> = (props) => {
             textObj.anchor.set(0.5);
             textObj.x = x1_px + w_px / 2;
             textObj.y = rY_px + h_px / 2;
+
+            if (comboCellIds?.includes(cell.id)) {
+                pathCenters.set(cell.id, { x: textObj.x, y: textObj.y });
+            }
         };
 
-        predictionCells.forEach(drawCell);
+        predictionCells.forEach(cell => drawCell(cell));
+
+        // Custom boxes are not grid cells: draw bets placed on them and the current draft alongside the cells
+        bets.filter(bet => bet.custom).forEach(bet => {
+            drawCell(customBetBox(bet), `x${bet.odds}`);
+        });
+        const draft = dragBox || draftBox;
+        if (draft) {
+            drawCell({ ...draft, id: DRAFT_BOX_ID }, dragBox ? '' : (draftLabel ?? ''));
+        }
+
+        // Connect the legs of the combo path being built
+        const pathPoints = (comboCellIds || []).map(id => pathCenters.get(id)).filter((p): p is { x: number; y: number } => !!p);
+        if (pathPoints.length > 1) {
+            graphics.moveTo(pathPoints[0].x, pathPoints[0].y);
+            pathPoints.slice(1).forEach(p => graphics.lineTo(p.x, p.y));
+            graphics.stroke({ color: 0x00BCD4, alpha: 0.9, width: 2 });
+        }
         
         // Hide unused text objects
         for (let i = textIndex; i < existingTexts.length; i++) {
             existingTexts[i].visible = false;
         }
 
-    }, [pixiReady, chart, bets, predictionCells, series, lastTime, lastPrice, roomConfig]);
+    }, [pixiReady, chart, bets, predictionCells, series, lastTime, lastPrice, roomConfig, timeframe, selectedCellId, combos, comboCellIds, dragBox, draftBox, draftLabel]);
 
     useEffect(() => {
         drawCellGrid();
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import type { LeaderboardEntry, LeaderboardMetric, LeaderboardPeriod, RoomLeaderboards } from '@trader-master/shared';
+import { getLeaderboard } from '../api/leaderboard';
+
+const GLOBAL_REFRESH_MS = 30000;
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+    session: 'Session',
+    day: 'Today',
+    all: 'All-time',
+};
+
+const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+    pnl: 'PnL',
+    roi: 'ROI',
+    winRate: 'Win rate',
+};
+
+const formatMetric = (entry: LeaderboardEntry, metric: LeaderboardMetric) => {
+    if (metric === 'pnl') return `${entry.pnl >= 0 ? '+' : ''}${entry.pnl.toFixed(2)}`;
+    return `${(entry[metric] * 100).toFixed(1)}%`;
+};
+
+interface LeaderboardPanelProps {
+    title: string;
+    /** Room leaderboards pushed by the server; when omitted the global leaderboard is fetched over REST */
+    boards?: RoomLeaderboards | null;
+    /** Row to highlight */
+    currentUserId?: string | null;
+}
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ title, boards, currentUserId }) => {
+    const [period, setPeriod] = useState<LeaderboardPeriod>('day');
+    const [metric, setMetric] = useState<LeaderboardMetric>('pnl');
+    const [fetched, setFetched] = useState<LeaderboardEntry[] | null>(null);
+    const isGlobal = boards === undefined;
+
+    useEffect(() => {
+        if (!isGlobal) return;
+        const load = () => getLeaderboard(period, metric).then(board => setFetched(board ? board.entries : []));
+        load();
+        const timer = setInterval(load, GLOBAL_REFRESH_MS);
+        return () => clearInterval(timer);
+    }, [isGlobal, period, metric]);
+
+    const entries = isGlobal ? fetched : boards ? boards[period][metric] : null;
+
+    return (
+        <div className="leaderboard">
+            <div className="leaderboard-header">
+                <span className="leaderboard-title">{title}</span>
+                <div className="mode-switch">
+                    {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map(p => (
+                        <button key={p} className={period === p ? 'active' : ''} onClick={() => setPeriod(p)}>
+                            {PERIOD_LABELS[p]}
+                        </button>
+                    ))}
+                </div>
+                <div className="mode-switch">
+                    {(Object.keys(METRIC_LABELS) as LeaderboardMetric[]).map(m => (
+                        <button key={m} className={metric === m ? 'active' : ''} onClick={() => setMetric(m)}>
+                            {METRIC_LABELS[m]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!entries ? (
+                <div className="label">Loading leaderboard...</div>
+            ) : entries.length === 0 ? (
+                <div className="label">No settled bets yet</div>
+            ) : (
+                <table className="leaderboard-table">
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Player</th>
+                            <th>{METRIC_LABELS[metric]}</th>
+                            <th>Bets</th>
+                            <th>W / L</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => (
+                            <tr key={entry.accountId} className={entry.accountId === currentUserId ? 'me' : ''}>
+                                <td>{entry.rank}</td>
+                                <td>{entry.name}</td>
+                                <td className={entry.pnl >= 0 ? 'win' : 'loss'}>{formatMetric(entry, metric)}</td>
+                                <td>{entry.bets}</td>
+                                <td>{entry.wins} / {entry.losses}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+import { createChart, ColorType, LineSeries } from 'lightweight-charts';
+import type { LineData, UTCTimestamp } from 'lightweight-charts';
+import type { BetAnalytics } from '@trader-master/shared';
+
+interface PnlCurveProps {
+    points: BetAnalytics['pnlCurve'];
+    height?: number;
+}
+
+// Cumulative PnL over settlement time
+export const PnlCurve: React.FC<PnlCurveProps> = ({ points, height = 240 }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+
+        const chart = createChart(containerRef.current, {
+            layout: {
+                background: { type: ColorType.Solid, color: '#1E1E1E' },
+                textColor: '#DDD',
+            },
+            grid: {
+                vertLines: { color: '#2B2B43' },
+                horzLines: { color: '#2B2B43' },
+            },
+            width: containerRef.current.clientWidth,
+            height,
+            timeScale: { timeVisible: true },
+        });
+        const series = chart.addSeries(LineSeries, { color: '#2962FF', lineWidth: 2 });
+
+        // The chart needs strictly increasing times: keep the last value of each second
+        const bySecond = new Map<number, number>();
+        points.forEach(p => bySecond.set(Math.floor(p.time / 1000), p.pnl));
+        const data: LineData[] = Array.from(bySecond.entries()).map(([time, value]) => ({ time: time as UTCTimestamp, value }));
+        series.setData(data);
+        chart.timeScale().fitContent();
+
+        const handleResize = () => {
+            if (containerRef.current) {
+                chart.applyOptions({ width: containerRef.current.clientWidth });
+            }
+        };
+        window.addEventListener('resize', handleResize);
+
+        return () => {
+            window.removeEventListener('resize', handleResize);
+            chart.remove();
+        };
+    }, [points, height]);
+
+    return <div ref={containerRef} style={{ width: '100%' }} />;
+};
@@ -3,12 +3,16 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { createChart, ColorType, CandlestickSeries, LineSeries } from 'lightweight-charts';
 import type { IChartApi, ISeriesApi, UTCTimestamp, CandlestickData, LineData } from 'lightweight-charts';
 import * as Colyseus from '@colyseus/sdk';
-import { MarketState, MessageType } from '@trader-master/shared';
-import type { Candle } from '@trader-master/shared';
+import { MarketState, MessageType, TIMEFRAMES } from '@trader-master/shared';
+import type { Candle, CandlePayload, CandlesPayload, ComboBetData, MarketStatusPayload, RoomLeaderboards, SubscribeTimeframePayload } from '@trader-master/shared';
 import { GameOverlay } from '../components/GameOverlay';
+import { BetSlip } from '../components/BetSlip';
+import { LeaderboardPanel } from '../components/LeaderboardPanel';
 import { useGameStore } from '../store/useGameStore';
 import { syncRoomState } from '../store/syncRoomState';
-import { getRoomMetadata } from '../api/room';
+import { getRoomMetadata, getCandles } from '../api/room';
+import { SETTLEMENT_RULE_LABELS } from '../utils/settlement';
+import { ensureAuth } from '../api/auth';
 import '../components/GameOverlay.css';
 import '../App.css';
 
@@ -19,6 +23,32 @@ import '../App.css';
   // const host = window.location.host;
   // const client = new Colyseus.Client(`${protocol}://${host}/api`);
 
+const formatTimeframe = (seconds: number) => seconds < 60 ? `${seconds}s` : `${seconds / 60}m`;
+
+// Synthetic (generated) candles and gap seconds (no price published) are drawn in grey so they are not mistaken for real prices
+const SYNTHETIC_COLOR = '#555';
+
+const toCandlestickData = (item: Candle): CandlestickData => ({
+  time: item.time as UTCTimestamp,
+  open: item.open,
+  high: item.high,
+  low: item.low,
+  close: item.close,
+  ...(item.synthetic || item.gap ? { color: SYNTHETIC_COLOR, wickColor: SYNTHETIC_COLOR } : {}),
+});
+
+const toLineData = (item: Candle): LineData => ({
+  time: item.time as UTCTimestamp,
+  value: item.close,
+  ...(item.synthetic || item.gap ? { color: SYNTHETIC_COLOR } : {}),
+});
+
+/** How long a server message stays on screen (ms) */
+const NOTICE_DURATION = 4000;
+
+/** Start loading older candles when fewer than this many bars are left of the visible range */
+const PAGE_BACK_THRESHOLD = 20;
+
 export function GamePage() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
@@ -35,7 +65,15 @@ export function GamePage() {
 
   const bets = useGameStore((state) => state.bets);
   const balance = useGameStore((state) => state.balance);
+  const volatility = useGameStore((state) => state.volatility);
   const roomConfig = useGameStore((state) => state.roomConfig);
+  const leaderboards = useGameStore((state) => state.leaderboards);
+  const marketStatus = useGameStore((state) => state.marketStatus);
+  const notice = useGameStore((state) => state.notice);
+  const showNotice = useGameStore((state) => state.showNotice);
+  const userId = useGameStore((state) => state.userId);
+  const timeframe = useGameStore((state) => state.timeframe);
+  const setTimeframe = useGameStore((state) => state.setTimeframe);
   const setRoomConfig = useGameStore((state) => state.setRoomConfig);
 
   // Calculate stats
@@ -63,6 +101,11 @@ export function GamePage() {
       connectionAttemptRef.current = true;
 
       try {
+        // Authenticate (as a guest unless signed in) so the server restores our balance and open bets
+        const { token, user } = await ensureAuth();
+        client.auth.token = token;
+        useGameStore.getState().setUserId(user.userId);
+
         const lastToken = localStorage.getItem("reconnectionToken");
         
         // Try to reconnect if token exists
@@ -170,6 +213,13 @@ export function GamePage() {
     };
   }, [room]);
 
+  // Notices dismiss themselves after a few seconds
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => showNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice, showNotice]);
+
   // Initialize Chart
   useEffect(() => {
     if (!chartContainerRef.current || !roomConfig) return;
@@ -189,7 +239,8 @@ export function GamePage() {
         timeVisible: true,
         secondsVisible: true,
         shiftVisibleRangeOnNewBar: true,
-        barSpacing: ((500 - 26) * 0.8 / (roomConfig.predictionLayers || 8)) / (roomConfig.predictionDuration || 30), 
+        // Keep cells the same width on screen whatever the candle period
+        barSpacing: ((500 - 26) * 0.8 / (roomConfig.predictionLayers || 8)) / (roomConfig.predictionDuration || 30) * timeframe, 
         rightOffset: 0, 
       },
       rightPriceScale: {
@@ -232,6 +283,10 @@ export function GamePage() {
         };
     };
 
+    // Show prices at the symbol's tick size
+    const tickSize = roomConfig.tickSize || 0.01;
+    const priceFormat = { type: 'price' as const, minMove: tickSize, precision: Math.max(0, Math.ceil(-Math.log10(tickSize))) };
+
     let series: ISeriesApi<"Candlestick"> | ISeriesApi<"Line">;
 
     if (chartMode === 'candlestick') {
@@ -241,12 +296,14 @@ export function GamePage() {
         borderVisible: false,
         wickUpColor: '#26a69a',
         wickDownColor: '#ef5350',
+        priceFormat,
         autoscaleInfoProvider: autoscaleStrategy,
       });
     } else {
       series = chart.addSeries(LineSeries, {
         color: '#2962FF',
         lineWidth: 2,
+        priceFormat,
         autoscaleInfoProvider: autoscaleStrategy,
       });
     }
@@ -254,7 +311,7 @@ export function GamePage() {
     setChartApi(chart);
     setSeriesApi(series);
     
-    const desiredRightOffsetBars = (roomConfig.predictionInitialColumns || 20) * (roomConfig.predictionDuration || 30);
+    const desiredRightOffsetBars = (roomConfig.predictionInitialColumns || 20) * (roomConfig.predictionDuration || 30) / timeframe;
     
     chart.applyOptions({
         timeScale: {
@@ -262,27 +319,16 @@ export function GamePage() {
         }
     });
 
-    // Initial Data Load
-    if (marketData.length > 0) {
+    // Initial Data Load (coarser timeframes arrive with the subscription)
+    if (timeframe === 1 && marketData.length > 0) {
       const uniqueData = new Map();
       marketData.forEach(item => uniqueData.set(item.time, item));
       const sortedData = Array.from(uniqueData.values()).sort((a, b) => a.time - b.time);
 
       if (chartMode === 'candlestick') {
-        const data: CandlestickData[] = sortedData.map(item => ({
-          time: item.time as UTCTimestamp,
-          open: item.open,
-          high: item.high,
-          low: item.low,
-          close: item.close
-        }));
-        (series as ISeriesApi<"Candlestick">).setData(data);
+        (series as ISeriesApi<"Candlestick">).setData(sortedData.map(toCandlestickData));
       } else {
-        const data: LineData[] = sortedData.map(item => ({
-          time: item.time as UTCTimestamp,
-          value: item.close,
-        }));
-        (series as ISeriesApi<"Line">).setData(data);
+        (series as ISeriesApi<"Line">).setData(sortedData.map(toLineData));
       }
     }
 
@@ -291,7 +337,7 @@ export function GamePage() {
         const newWidth = chartContainerRef.current.clientWidth;
         chart.applyOptions({ width: newWidth });
         
-        const desiredRightOffsetBars = (roomConfig.predictionInitialColumns || 20) * (roomConfig.predictionDuration || 30);
+        const desiredRightOffsetBars = (roomConfig.predictionInitialColumns || 20) * (roomConfig.predictionDuration || 30) / timeframe;
         chart.applyOptions({
             timeScale: {
                 rightOffset: desiredRightOffsetBars,
@@ -307,12 +353,60 @@ export function GamePage() {
       setSeriesApi(null);
       chart.remove();
     };
-  }, [chartMode, roomConfig]); 
+  }, [chartMode, roomConfig, timeframe]); 
 
   // Data Updates
   useEffect(() => {
     if (!seriesApi || !room) return;
 
+    // Older candles paged in over HTTP, kept in front of whatever the room streams
+    let older: Candle[] = [];
+    let streamed: Candle[] = [];
+    let displayed: Candle[] = [];
+    let loadingOlder = false;
+    let exhausted = false;
+
+    const setSeriesData = (candles: Candle[]) => {
+      streamed = candles;
+      const first = candles.length > 0 ? candles[0].time : Infinity;
+      displayed = [...older.filter(c => c.time < first), ...candles];
+      if (chartMode === 'candlestick') {
+        (seriesApi as ISeriesApi<"Candlestick">).setData(displayed.map(toCandlestickData));
+      } else {
+        (seriesApi as ISeriesApi<"Line">).setData(displayed.map(toLineData));
+      }
+    };
+
+    const updateSeries = (data: Candle) => {
+      if (chartMode === 'candlestick') {
+        (seriesApi as ISeriesApi<"Candlestick">).update(toCandlestickData(data));
+      } else {
+        (seriesApi as ISeriesApi<"Line">).update(toLineData(data));
+      }
+    };
+
+    const loadOlder = async () => {
+      if (loadingOlder || exhausted || displayed.length === 0 || !roomId) return;
+      loadingOlder = true;
+      const page = await getCandles(roomId, { to: displayed[0].time - 1, tf: timeframe });
+      loadingOlder = false;
+      if (!page || page.candles.length === 0) {
+        exhausted = true;
+        return;
+      }
+      older = [...page.candles, ...older];
+      setSeriesData(streamed);
+    };
+
+    const handleVisibleRange = (range: { from: number; to: number } | null) => {
+      if (range && range.from < PAGE_BACK_THRESHOLD) {
+        loadOlder();
+      }
+    };
+    chartApi?.timeScale().subscribeVisibleLogicalRangeChange(handleVisibleRange);
+
+    // The 1s stream always drives market data (cell timing, settlement display);
+    // the chart shows it directly only on the 1s timeframe
     const handleHistory = (data: Candle[]) => {
       const sortedData = data.sort((a, b) => a.time - b.time);
       setMarketData(sortedData);
@@ -322,21 +416,8 @@ export function GamePage() {
         lastPriceRef.current = sortedData[sortedData.length - 1].close;
       }
 
-      if (chartMode === 'candlestick') {
-        const chartData: CandlestickData[] = sortedData.map(item => ({
-          time: item.time as UTCTimestamp,
-          open: item.open,
-          high: item.high,
-          low: item.low,
-          close: item.close
-        }));
-        (seriesApi as ISeriesApi<"Candlestick">).setData(chartData);
-      } else {
-        const chartData: LineData[] = sortedData.map(item => ({
-          time: item.time as UTCTimestamp,
-          value: item.close,
-        }));
-        (seriesApi as ISeriesApi<"Line">).setData(chartData);
+      if (timeframe === 1) {
+        setSeriesData(sortedData);
       }
     };
 
@@ -359,24 +440,24 @@ export function GamePage() {
         return [...prev, data];
       });
       
-      if (chartMode === 'candlestick') {
-        const chartItem: CandlestickData = {
-          time: data.time as UTCTimestamp,
-          open: data.open,
-          high: data.high,
-          low: data.low,
-          close: data.close
-        };
-        (seriesApi as ISeriesApi<"Candlestick">).update(chartItem);
-      } else {
-        const chartItem: LineData = {
-          time: data.time as UTCTimestamp,
-          value: data.close,
-        };
-        (seriesApi as ISeriesApi<"Line">).update(chartItem);
+      if (timeframe === 1) {
+        updateSeries(data);
       }
     };
 
+    // Aggregated timeframes: full series on subscribe, then the forming candle every tick
+    const handleCandles = (data: CandlesPayload) => {
+      if (data.timeframe !== timeframe) return;
+      const uniqueData = new Map<number, Candle>();
+      data.candles.forEach(item => uniqueData.set(item.time, item));
+      setSeriesData(Array.from(uniqueData.values()).sort((a, b) => a.time - b.time));
+    };
+
+    const handleCandle = (data: CandlePayload) => {
+      if (data.timeframe !== timeframe || timeframe === 1) return;
+      updateSeries(data.candle);
+    };
+
     const handleBetResult = (data: any) => {
       const store = useGameStore.getState();
       const betsArray = Array.isArray(data.bets)
@@ -388,24 +469,45 @@ export function GamePage() {
       betsArray.forEach((betData: any) => {
         store.updateBet(betData);
 
-        if (betData.ownerId === room.sessionId && betData.cellId) {
+        if (betData.ownerId === store.userId && betData.cellId) {
           store.updatePredictionCellStatus(betData.cellId, betData.status);
         }
       });
 
+      if (Array.isArray(data.combos)) {
+        data.combos.forEach((comboData: ComboBetData) => store.updateCombo(comboData));
+      }
+
       if (typeof data.balance === "number") {
         store.setBalance(data.balance);
       }
     };
 
-    room.onMessage(MessageType.HISTORY, handleHistory);
-    room.onMessage(MessageType.PRICE, handlePrice);
-    room.onMessage(MessageType.BET_RESULT, handleBetResult);
+    // Rejections are routine (odds and cash-out values move every second): show them without blocking the chart
+    const handleError = (data: { message: string }) => {
+      console.warn('Server error:', data.message);
+      useGameStore.getState().showNotice(data.message);
+    };
+
+    const unsubscribers = [
+      room.onMessage(MessageType.HISTORY, handleHistory),
+      room.onMessage(MessageType.PRICE, handlePrice),
+      room.onMessage(MessageType.CANDLES, handleCandles),
+      room.onMessage(MessageType.CANDLE, handleCandle),
+      room.onMessage(MessageType.BET_RESULT, handleBetResult),
+      room.onMessage(MessageType.ERROR, handleError),
+      room.onMessage(MessageType.LEADERBOARD, (data: RoomLeaderboards) => useGameStore.getState().setLeaderboards(data)),
+      room.onMessage(MessageType.MARKET_STATUS, (data: MarketStatusPayload) => useGameStore.getState().setMarketStatus(data)),
+    ];
+
+    const subscription: SubscribeTimeframePayload = { timeframe };
+    room.send(MessageType.SUBSCRIBE_TIMEFRAME, subscription);
 
     return () => {
+      unsubscribers.forEach(off => off());
+      chartApi?.timeScale().unsubscribeVisibleLogicalRangeChange(handleVisibleRange);
     };
-  }, [seriesApi, chartMode, chartApi, room, setRoomConfig]);
-
+  }, [seriesApi, chartMode, chartApi, room, roomId, setRoomConfig, timeframe]);
   return (
     <div className="app-container">
       <header>
@@ -414,9 +516,22 @@ export function GamePage() {
             &larr; Back
           </button>
           <h1>TraderMaster</h1>
+          <button onClick={() => navigate('/history')} style={{ background: 'none', border: '1px solid #444', color: '#fff', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>
+            My bets
+          </button>
         </div>
         <div className="header-controls">
-          <p>Real-time Market Simulation</p>
+          {marketData.length > 0 && marketData[0].synthetic && (
+            <span className="synthetic-badge" title="No recorded prices were available when the room started; the grey history is generated">
+              Synthetic history
+            </span>
+          )}
+          {marketStatus.halted && (
+            <span className="halted-badge" title="Open bets whose window overlaps the outage are refunded">
+              Betting paused: {marketStatus.reason}
+            </span>
+          )}
+          <p>{roomConfig?.settlementRule ? `Rule: ${SETTLEMENT_RULE_LABELS[roomConfig.settlementRule]}` : 'Real-time Market Simulation'}</p>
           <div className="mode-switch">
             <button 
               className={chartMode === 'line' ? 'active' : ''} 
@@ -431,6 +546,13 @@ export function GamePage() {
               Candle
             </button>
           </div>
+          <div className="mode-switch">
+            {TIMEFRAMES.map(tf => (
+              <button key={tf} className={timeframe === tf ? 'active' : ''} onClick={() => setTimeframe(tf)}>
+                {formatTimeframe(tf)}
+              </button>
+            ))}
+          </div>
         </div>
       </header>
       
@@ -453,10 +575,19 @@ export function GamePage() {
             <span className="label">Lost</span>
             <span className="value loss">{lostBets}</span>
           </div>
+          <div className="stat-item">
+            <span className="label">Volatility</span>
+            <span className="value">{(volatility * 100).toFixed(1)}%</span>
+          </div>
         </div>
       </div>
 
       <div className="chart-wrapper" ref={chartContainerRef} style={{ position: 'relative', minHeight: '500px' }}>
+        {notice && (
+          <div className="notice-toast" onClick={() => showNotice(null)}>
+            {notice}
+          </div>
+        )}
         {chartApi && seriesApi && room && (
           <GameOverlay 
             chart={chartApi} 
@@ -468,6 +599,10 @@ export function GamePage() {
           />
         )}
       </div>
+
+      {room && <BetSlip room={room} roomConfig={roomConfig} />}
+
+      <LeaderboardPanel title="Room leaderboard" boards={leaderboards} currentUserId={userId} />
     </div>
   );
 }
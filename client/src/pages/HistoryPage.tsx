@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { AnalyticsBucket, BetAnalytics, BetHistoryRecord } from '@trader-master/shared';
+import { getBetAnalytics, getBetHistory, type HistoryFilters } from '../api/history';
+import { PnlCurve } from '../components/PnlCurve';
+import '../App.css';
+
+const PAGE_SIZE = 25;
+const DAY_MS = 24 * 3600 * 1000;
+
+const PERIODS: { label: string; days: number | null }[] = [
+  { label: 'All time', days: null },
+  { label: 'Today', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const STATUSES = ['won', 'lost', 'cashed_out', 'cancelled', 'refunded'];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const describeRecord = (record: BetHistoryRecord) =>
+  record.kind === 'combo'
+    ? record.legs.map(leg => `${leg.lowPrice}-${leg.highPrice}`).join(' → ')
+    : `${record.lowPrice}-${record.highPrice}${record.custom ? ' (custom)' : ''}`;
+
+function BucketTable({ title, buckets }: { title: string; buckets: AnalyticsBucket[] }) {
+  return (
+    <div className="history-card">
+      <h3>{title}</h3>
+      <table className="leaderboard-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th>Bets</th>
+            <th>Win rate</th>
+            <th>PnL</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map(bucket => (
+            <tr key={bucket.label}>
+              <td>{bucket.label}</td>
+              <td>{bucket.bets}</td>
+              <td>
+                <div className="history-bar">
+                  <div style={{ width: formatPercent(bucket.winRate) }} />
+                  <span>{bucket.bets > 0 ? formatPercent(bucket.winRate) : '-'}</span>
+                </div>
+              </td>
+              <td className={bucket.pnl >= 0 ? 'win' : 'loss'}>{formatPnl(bucket.pnl)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function HistoryPage() {
+  const navigate = useNavigate();
+  const [symbol, setSymbol] = useState('');
+  const [kind, setKind] = useState<HistoryFilters['kind'] | ''>('');
+  const [status, setStatus] = useState('');
+  const [periodDays, setPeriodDays] = useState<number | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [analytics, setAnalytics] = useState<BetAnalytics | null>(null);
+  const [records, setRecords] = useState<BetHistoryRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters are resolved at fetch time so "today" stays current
+  const buildFilters = (): HistoryFilters => ({
+    symbol: symbol || undefined,
+    kind: kind || undefined,
+    status: status || undefined,
+    from: periodDays ? Date.now() - periodDays * DAY_MS : undefined,
+  });
+
+  useEffect(() => {
+    const filters = buildFilters();
+    Promise.all([getBetAnalytics(filters), getBetHistory(filters, offset, PAGE_SIZE)])
+      .then(([stats, page]) => {
+        setAnalytics(stats);
+        setRecords(page.items);
+        setTotal(page.total);
+        setError(null);
+      })
+      .catch(e => setError((e as Error).message));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol, kind, status, periodDays, offset]);
+
+  // Any filter change goes back to the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const selectStyle = { padding: '6px', backgroundColor: '#111', color: '#fff', border: '1px solid #444', borderRadius: '4px' };
+  const buttonStyle = { padding: '6px 12px', backgroundColor: '#333', color: 'white', border: '1px solid #555', borderRadius: '4px', cursor: 'pointer' };
+
+  return (
+    <div className="app-container">
+      <header>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+          <button onClick={() => navigate('/')} style={{ background: 'none', border: '1px solid #444', color: '#fff', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>
+            &larr; Back
+          </button>
+          <h1>My Bets</h1>
+        </div>
+      </header>
+
+      <div className="history-filters">
+        <input placeholder="Symbol" value={symbol} onChange={(e) => updateFilter(setSymbol)(e.target.value)} style={selectStyle} />
+        <select value={kind} onChange={(e) => updateFilter(setKind)(e.target.value as HistoryFilters['kind'] | '')} style={selectStyle}>
+          <option value="">Bets &amp; combos</option>
+          <option value="bet">Single bets</option>
+          <option value="combo">Combos</option>
+        </select>
+        <select value={status} onChange={(e) => updateFilter(setStatus)(e.target.value)} style={selectStyle}>
+          <option value="">Any result</option>
+          {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <div className="mode-switch">
+          {PERIODS.map(p => (
+            <button key={p.label} className={periodDays === p.days ? 'active' : ''} onClick={() => updateFilter(setPeriodDays)(p.days)}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div style={{ color: '#ef5350' }}>{error}</div>}
+
+      {analytics && (
+        <>
+          <div className="stats-container">
+            <div className="game-stats">
+              <div className="stat-item">
+                <span className="label">Bets</span>
+                <span className="value">{analytics.bets}</span>
+              </div>
+              <div className="stat-item">
+                <span className="label">Win rate</span>
+                <span className="value">{formatPercent(analytics.winRate)}</span>
+              </div>
+              <div className="stat-item">
+                <span className="label">PnL</span>
+                <span className={`value ${analytics.pnl >= 0 ? 'win' : 'loss'}`}>{formatPnl(analytics.pnl)}</span>
+              </div>
+              <div className="stat-item">
+                <span className="label">ROI</span>
+                <span className="value">{formatPercent(analytics.roi)}</span>
+              </div>
+              <div className="stat-item">
+                <span className="label">Avg stake</span>
+                <span className="value">{analytics.averageStake.toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="history-card">
+            <h3>Cumulative PnL</h3>
+            {analytics.pnlCurve.length > 0 ? <PnlCurve points={analytics.pnlCurve} /> : <div className="label">No settled bets yet</div>}
+          </div>
+
+          <div className="history-grid">
+            <BucketTable title="Win rate by odds" buckets={analytics.byOdds} />
+            <BucketTable title="Win rate by distance from price" buckets={analytics.byDistance} />
+          </div>
+        </>
+      )}
+
+      <div className="history-card">
+        <h3>History</h3>
+        <table className="leaderboard-table">
+          <thead>
+            <tr>
+              <th>Settled</th>
+              <th>Symbol</th>
+              <th>Type</th>
+              <th>Range</th>
+              <th>Stake</th>
+              <th>Odds</th>
+              <th>Result</th>
+              <th>PnL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(record => {
+              const pnl = (record.payout || 0) - record.amount;
+              return (
+                <tr key={record.id}>
+                  <td>{record.settledAt ? new Date(record.settledAt).toLocaleString() : '-'}</td>
+                  <td>{record.symbol}</td>
+                  <td>{record.kind}</td>
+                  <td>{describeRecord(record)}</td>
+                  <td>{record.amount}</td>
+                  <td>{record.odds.toFixed(2)}</td>
+                  <td>{record.status}</td>
+                  <td className={pnl >= 0 ? 'win' : 'loss'}>{formatPnl(pnl)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="history-filters">
+          <button style={buttonStyle} disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>Previous</button>
+          <span className="label">
+            {total === 0 ? 'No bets' : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+          </span>
+          <button style={buttonStyle} disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>Next</button>
+        </div>
+      </div>
+    </div>
+  );
+}
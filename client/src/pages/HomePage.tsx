@@ -1,11 +1,22 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { getAvailableRooms, type RoomListing } from '../api/room';
+import { getCurrentUser, login, logout, register, type AuthUser } from '../api/auth';
+import { SETTLEMENT_RULE_LABELS } from '../utils/settlement';
+import { LeaderboardPanel } from '../components/LeaderboardPanel';
 
 export function HomePage() {
   const [availableRooms, setAvailableRooms] = useState<RoomListing[]>([]);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [authError, setAuthError] = useState<string | null>(null);
   const navigate = useNavigate();
 
+  useEffect(() => {
+    getCurrentUser().then(setUser);
+  }, []);
+
   useEffect(() => {
     const fetchRooms = async () => {
       try {
@@ -22,8 +33,44 @@ export function HomePage() {
     navigate(`/game/${roomId}`);
   };
 
+  const handleAuth = async (action: typeof login) => {
+    try {
+      setUser(await action(username, password));
+      setPassword('');
+      setAuthError(null);
+    } catch (e) {
+      setAuthError((e as Error).message);
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    setUser(null);
+  };
+
+  const inputStyle = { padding: '8px', backgroundColor: '#111', color: '#fff', border: '1px solid #444', borderRadius: '4px' };
+  const buttonStyle = { padding: '8px 16px', backgroundColor: '#333', color: 'white', border: '1px solid #555', borderRadius: '4px', cursor: 'pointer' };
+
   return (
     <div className="home-container" style={{ padding: '40px', maxWidth: '800px', margin: '0 auto' }}>
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', justifyContent: 'flex-end', color: '#888' }}>
+        <button onClick={() => navigate('/history')} style={buttonStyle}>My bets</button>
+        {user && !user.guest ? (
+          <>
+            <span>Signed in as <strong style={{ color: '#fff' }}>{user.name}</strong></span>
+            <button onClick={handleLogout} style={buttonStyle}>Log out</button>
+          </>
+        ) : (
+          <>
+            <span>{user ? `Playing as ${user.name}` : 'Playing as guest'}</span>
+            <input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} style={inputStyle} />
+            <input placeholder="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} style={inputStyle} />
+            <button onClick={() => handleAuth(login)} style={buttonStyle}>Log in</button>
+            <button onClick={() => handleAuth(register)} style={buttonStyle}>Register</button>
+          </>
+        )}
+      </div>
+      {authError && <div style={{ color: '#ef5350', textAlign: 'right', marginTop: '6px' }}>{authError}</div>}
       <h1>Available Rooms</h1>
       {availableRooms.length === 0 ? (
         <div style={{ color: '#888', marginTop: '20px' }}>Loading rooms...</div>
@@ -44,6 +91,11 @@ export function HomePage() {
                 <div style={{ color: '#888' }}>
                   Players: {r.clients}/{r.maxClients}
                 </div>
+                {r.metadata?.settlementRule && (
+                  <div style={{ color: '#888', marginTop: '4px' }}>
+                    {SETTLEMENT_RULE_LABELS[r.metadata.settlementRule as keyof typeof SETTLEMENT_RULE_LABELS]}
+                  </div>
+                )}
               </div>
               <button 
                 onClick={() => handleJoin(r.roomId)}
@@ -63,6 +115,8 @@ export function HomePage() {
           ))}
         </div>
       )}
+      <h1>Leaderboard</h1>
+      <LeaderboardPanel title="All rooms" currentUserId={user?.userId} />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import * as Colyseus from '@colyseus/sdk';
-import { MarketState } from '@trader-master/shared';
+import { MarketState, Player, ComboBet, ComboLeg } from '@trader-master/shared';
 import { useGameStore, type PlayerData } from './useGameStore';
 
 export function syncRoomState(room: Colyseus.Room<MarketState>) {
@@ -7,6 +7,7 @@ export function syncRoomState(room: Colyseus.Room<MarketState>) {
     const unsubs: (() => void)[] = [];
 
     console.log("Setting up Colyseus state callbacks...");
+    const userId = useGameStore.getState().userId;
 
     // Helpers
     const attachCell = (cell: any) => {
@@ -20,7 +21,7 @@ export function syncRoomState(room: Colyseus.Room<MarketState>) {
     const attachBet = (player: any, bet: any) => {
         useGameStore.getState().addBet(bet.toJSON());
         // If this bet belongs to current user, mark cell as 'bet_placed'
-        if (bet.ownerId === room.sessionId && bet.cellId) {
+        if (bet.ownerId === userId && bet.cellId) {
             useGameStore.getState().updatePredictionCellStatus(bet.cellId, 'bet_placed');
         }
         // Watch bet changes
@@ -29,6 +30,16 @@ export function syncRoomState(room: Colyseus.Room<MarketState>) {
         }));
     };
 
+    const attachCombo = (combo: ComboBet) => {
+        useGameStore.getState().addCombo(combo.toJSON());
+        const update = () => useGameStore.getState().updateCombo(combo.toJSON());
+        // Leg results arrive one by one, before the combo itself settles
+        unsubs.push(callbacks.onChange(combo, update));
+        combo.legs?.forEach((leg: ComboLeg) => {
+            unsubs.push(callbacks.onChange(leg, update));
+        });
+    };
+
     // Sync PredictionCells (add/remove + initial)
     unsubs.push(callbacks.onAdd('predictionCells', (cell: any) => {
         attachCell(cell);
@@ -39,16 +50,22 @@ export function syncRoomState(room: Colyseus.Room<MarketState>) {
     // Initial existing cells
     room.state.predictionCells?.forEach((cell: any) => attachCell(cell));
 
+    // Sync realized volatility estimate
+    unsubs.push(callbacks.listen('volatility', (value: number) => {
+        useGameStore.getState().setVolatility(value);
+    }));
+
     // Sync Players
     unsubs.push(callbacks.onAdd('players', (player: any) => {
         // We only care about the current user for the main 'player' state
-        if (player.id !== room.sessionId) return;
+        if (player.id !== userId) return;
         
         console.log("Current player joined state:", player.id);
         
         const updatePlayer = () => {
              const playerData: PlayerData = {
                  id: player.id,
+                 name: player.name,
                  balance: player.balance,
                  connected: player.connected
              };
@@ -75,12 +92,23 @@ export function syncRoomState(room: Colyseus.Room<MarketState>) {
         }
         // Initial existing bets
         player.bets?.forEach((bet: any) => attachBet(player, bet));
+
+        // Sync Combos (nested in player)
+        unsubs.push(callbacks.onAdd(player as Player, 'combos', (combo: ComboBet) => {
+            attachCombo(combo);
+        }));
+        if ('onRemove' in callbacks) {
+            unsubs.push(callbacks.onRemove(player as Player, 'combos', (combo: ComboBet) => {
+                useGameStore.getState().removeCombo(combo.id);
+            }));
+        }
+        player.combos?.forEach((combo: ComboBet) => attachCombo(combo));
     }));
     
     // Player removed (timeout)
     if ('onRemove' in callbacks) {
         unsubs.push(callbacks.onRemove('players', (player: any) => {
-            if (player.id === room.sessionId) {
+            if (player.id === userId) {
                 useGameStore.getState().setPlayer(null);
             }
         }));
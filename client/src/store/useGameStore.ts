@@ -1,43 +1,86 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { BetData, Candle, PredictionCellData, MarketRoomConfig } from '@trader-master/shared';
+import type { BetData, ComboBetData, Candle, PredictionCellData, MarketRoomConfig, MarketStatusPayload, PriceBox, Quote, RoomLeaderboards } from '@trader-master/shared';
 
 // Define PlayerData locally until shared package update propagates
 export interface PlayerData {
     id: string;
+    name: string;
     balance: number;
     connected: boolean;
 }
 
+// confirm: clicking a cell selects it in the bet slip; one-click: clicking places the bet immediately;
+// combo: clicking cells builds a multi-column path; draw: dragging on the chart draws a custom box to get a quote for
+export type BetMode = 'confirm' | 'one-click' | 'combo' | 'draw';
+
 interface GameState {
   // Market Data
   marketData: Candle[];
   lastTime: number | null;
   lastPrice: number | null;
+  volatility: number;
   // Betting
   bets: BetData[];
+  combos: ComboBetData[];
   predictionCells: PredictionCellData[];
   roomConfig: MarketRoomConfig | null;
   
   // User
+  userId: string | null; // Verified user id from the auth token (players and bets are keyed by it)
   player: PlayerData | null;
   balance: number; // Keep balance for backward compatibility or ease of access, sync with player.balance
 
+  // Bet slip
+  stake: number;
+  betMode: BetMode;
+  selectedCellId: string | null;
+  comboLegs: PredictionCellData[]; // Picked cells as they were when picked, so legs scrolled out of view stay in the path
+  draftBox: PriceBox | null;
+  quote: Quote | null;
+
+  // Chart candle period in seconds
+  timeframe: number;
+
+  // Room leaderboards pushed by the server
+  leaderboards: RoomLeaderboards | null;
+
+  // Whether betting is paused because the room's price feed is stale or too uncertain
+  marketStatus: MarketStatusPayload;
+
+  // Latest rejection / status message, shown briefly over the chart
+  notice: string | null;
+
   // Actions
   setRoomConfig: (config: MarketRoomConfig) => void;
   setMarketData: (data: Candle[]) => void;
   addCandle: (candle: Candle) => void;
+  setVolatility: (volatility: number) => void;
   setBets: (bets: BetData[]) => void;
   addBet: (bet: BetData) => void;
   updateBet: (bet: BetData) => void;
   removeBet: (betId: string) => void;
+  addCombo: (combo: ComboBetData) => void;
+  updateCombo: (combo: ComboBetData) => void;
+  removeCombo: (comboId: string) => void;
   setPredictionCells: (cells: PredictionCellData[]) => void;
   addPredictionCell: (cell: PredictionCellData) => void;
   updatePredictionCell: (cell: PredictionCellData) => void;
   updatePredictionCellStatus: (cellId: string, status: string) => void;
   removePredictionCell: (cellId: string) => void;
+  setUserId: (userId: string | null) => void;
   setPlayer: (player: PlayerData | null) => void;
   setBalance: (balance: number) => void;
+  setStake: (stake: number) => void;
+  setBetMode: (mode: BetMode) => void;
+  setSelectedCellId: (cellId: string | null) => void;
+  setComboLegs: (legs: PredictionCellData[]) => void;
+  setDraftBox: (box: PriceBox | null) => void;
+  setQuote: (quote: Quote | null) => void;
+  setLeaderboards: (leaderboards: RoomLeaderboards) => void;
+  setMarketStatus: (status: MarketStatusPayload) => void;
+  showNotice: (notice: string | null) => void;
+  setTimeframe: (timeframe: number) => void;
 }
 
 export const useGameStore = create<GameState>()(
@@ -45,11 +88,24 @@ export const useGameStore = create<GameState>()(
     marketData: [],
     lastTime: null,
     lastPrice: null,
+    volatility: 0,
     bets: [],
+    combos: [],
     predictionCells: [],
     roomConfig: null,
+    userId: null,
     player: null,
     balance: 10000, // Default starting balance
+    stake: 100,
+    betMode: 'confirm',
+    selectedCellId: null,
+    comboLegs: [],
+    draftBox: null,
+    quote: null,
+    leaderboards: null,
+    marketStatus: { halted: false },
+    notice: null,
+    timeframe: 1,
 
     setRoomConfig: (config) => set({ roomConfig: config }),
 
@@ -74,6 +130,8 @@ export const useGameStore = create<GameState>()(
         };
     }),
 
+    setVolatility: (volatility) => set({ volatility }),
+
     setBets: (bets) => set({ bets }),
 
     addBet: (bet) => set((state) => {
@@ -89,6 +147,19 @@ export const useGameStore = create<GameState>()(
       bets: state.bets.filter((b) => b.id !== betId),
     })),
 
+    addCombo: (combo) => set((state) => {
+        if (state.combos.some(c => c.id === combo.id)) return {};
+        return { combos: [...state.combos, combo] };
+    }),
+
+    updateCombo: (updatedCombo) => set((state) => ({
+      combos: state.combos.map((c) => (c.id === updatedCombo.id ? updatedCombo : c)),
+    })),
+
+    removeCombo: (comboId) => set((state) => ({
+      combos: state.combos.filter((c) => c.id !== comboId),
+    })),
+
     setPredictionCells: (cells) => set({ predictionCells: cells }),
     
     addPredictionCell: (cell) => set((state) => {
@@ -108,6 +179,8 @@ export const useGameStore = create<GameState>()(
         predictionCells: state.predictionCells.filter(c => c.id !== cellId) 
     })),
 
+    setUserId: (userId) => set({ userId }),
+
     setPlayer: (player) => set((state) => ({ 
         player,
         // Sync balance if player is set
@@ -119,5 +192,26 @@ export const useGameStore = create<GameState>()(
         // Update player balance if player exists
         player: state.player ? { ...state.player, balance } : state.player
     })),
+
+    setStake: (stake) => set({ stake }),
+
+    setBetMode: (betMode) => set({ betMode, selectedCellId: null, comboLegs: [], draftBox: null, quote: null }),
+
+    setSelectedCellId: (selectedCellId) => set({ selectedCellId }),
+
+    setComboLegs: (comboLegs) => set({ comboLegs }),
+
+    // A new box invalidates the quote for the previous one
+    setDraftBox: (draftBox) => set({ draftBox, quote: null }),
+
+    setQuote: (quote) => set({ quote }),
+
+    setLeaderboards: (leaderboards) => set({ leaderboards }),
+
+    setMarketStatus: (marketStatus) => set({ marketStatus }),
+
+    showNotice: (notice) => set({ notice }),
+
+    setTimeframe: (timeframe) => set({ timeframe }),
   }))
 );
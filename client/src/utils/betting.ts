@@ -0,0 +1,101 @@
+import * as Colyseus from '@colyseus/sdk';
+import { MarketState, MessageType, MIN_BET, MAX_BET, STAKE_PRESETS, COMBO_MARGIN, COMBO_MAX_LEGS, PREDICTION_GENERATION_INTERVAL } from '@trader-master/shared';
+import type { AcceptQuotePayload, MarketRoomConfig, PlaceBetPayload, PlaceComboPayload, PredictionCellData, PriceBox, Quote, RequestQuotePayload } from '@trader-master/shared';
+
+export interface StakeLimits {
+    minBet: number;
+    maxBet: number;
+    presets: number[];
+}
+
+// Room stake limits, falling back to the shared defaults
+export const getStakeLimits = (config: MarketRoomConfig | null): StakeLimits => {
+    const minBet = config?.minBet || MIN_BET;
+    const maxBet = config?.maxBet || MAX_BET;
+    const presets = (config?.stakePresets || STAKE_PRESETS).filter(p => p >= minBet && p <= maxBet);
+    return { minBet, maxBet, presets };
+};
+
+// Client-side pre-check of a stake (the server enforces the same limits)
+export const validateStake = (amount: number, limits: StakeLimits, balance: number): string | null => {
+    if (!Number.isFinite(amount) || amount < limits.minBet) {
+        return `Minimum bet amount is ${limits.minBet}`;
+    }
+    if (amount > limits.maxBet) {
+        return `Maximum bet amount is ${limits.maxBet}`;
+    }
+    if (amount > balance) {
+        return 'Insufficient balance!';
+    }
+    return null;
+};
+
+export const placeBet = (room: Colyseus.Room<MarketState>, cell: PredictionCellData, amount: number) => {
+    const bet: PlaceBetPayload = {
+        cellId: cell.id,
+        amount,
+        odds: cell.odds, // Quoted odds, locked in by the server
+    };
+    console.log('Placing bet on cell:', cell.id, bet);
+    room.send(MessageType.PLACE_BET, bet);
+};
+
+// Combined combo odds, priced the same way as the server (product of leg odds minus the combo margin)
+export const getComboOdds = (legs: PredictionCellData[], config: MarketRoomConfig | null): number => {
+    const margin = config?.comboMargin ?? COMBO_MARGIN;
+    const product = legs.reduce((odds, cell) => odds * cell.odds, 1);
+    return Math.max(1.01, Math.floor(product * (1 - margin) * 100) / 100);
+};
+
+// Add a cell to the combo path (replacing any leg in the same column), or remove it if already picked
+export const toggleComboLeg = (
+    legs: PredictionCellData[],
+    cell: PredictionCellData,
+    config: MarketRoomConfig | null,
+): PredictionCellData[] => {
+    if (legs.some(leg => leg.id === cell.id)) {
+        return legs.filter(leg => leg.id !== cell.id);
+    }
+
+    const kept = legs.filter(leg => leg.startTime !== cell.startTime);
+    if (kept.length >= (config?.comboMaxLegs || COMBO_MAX_LEGS)) {
+        return legs;
+    }
+    return [...kept, cell].sort((a, b) => a.startTime - b.startTime);
+};
+
+// Legs must sit in consecutive columns; returns an error message for an invalid path
+export const validateComboPath = (legs: PredictionCellData[], config: MarketRoomConfig | null): string | null => {
+    if (legs.length < 2) {
+        return 'Pick at least 2 cells in consecutive columns';
+    }
+    const interval = config?.predictionGenerationInterval || PREDICTION_GENERATION_INTERVAL;
+    for (let i = 1; i < legs.length; i++) {
+        if (legs[i].startTime - legs[i - 1].startTime !== interval) {
+            return 'Combo legs must be in consecutive columns';
+        }
+    }
+    return null;
+};
+
+export const placeCombo = (room: Colyseus.Room<MarketState>, legs: PredictionCellData[], amount: number, odds: number) => {
+    const combo: PlaceComboPayload = {
+        cellIds: legs.map(cell => cell.id),
+        amount,
+        odds,
+    };
+    console.log('Placing combo:', combo);
+    room.send(MessageType.PLACE_COMBO, combo);
+};
+
+// Ask the server to price a custom box; the reply arrives as a QUOTE message
+export const requestQuote = (room: Colyseus.Room<MarketState>, box: PriceBox, amount: number) => {
+    const request: RequestQuotePayload = { ...box, amount };
+    console.log('Requesting quote:', request);
+    room.send(MessageType.REQUEST_QUOTE, request);
+};
+
+export const acceptQuote = (room: Colyseus.Room<MarketState>, quote: Quote) => {
+    const payload: AcceptQuotePayload = { quoteId: quote.id };
+    room.send(MessageType.ACCEPT_QUOTE, payload);
+};
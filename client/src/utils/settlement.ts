@@ -0,0 +1,9 @@
+import type { SettlementRule } from '@trader-master/shared';
+
+// Short player-facing description of each settlement rule
+export const SETTLEMENT_RULE_LABELS: Record<SettlementRule, string> = {
+    stay: 'Stay inside the cell for the whole window',
+    touch: 'Touch the cell to win',
+    close: 'Close inside the cell',
+    avoid: 'Avoid the cell (barrier)',
+};
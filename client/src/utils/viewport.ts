@@ -0,0 +1,36 @@
+import type { IChartApi, ISeriesApi } from 'lightweight-charts';
+import type { ViewportPayload } from '@trader-master/shared';
+
+/**
+ * Time / price area currently visible on the chart. Times past the last bar (the empty
+ * area on the right where future cells live) are extrapolated from the candle period.
+ */
+export const getChartViewport = (
+    chart: IChartApi,
+    series: ISeriesApi<"Candlestick"> | ISeriesApi<"Line">,
+    timeframe: number,
+): ViewportPayload | null => {
+    const range = chart.timeScale().getVisibleLogicalRange();
+    const data = series.data();
+    if (!range || data.length === 0) return null;
+
+    const firstTime = data[0].time as number;
+    const lastIndex = data.length - 1;
+    const lastTime = data[lastIndex].time as number;
+    const logicalToTime = (logical: number) => {
+        if (logical < 0) return firstTime + logical * timeframe;
+        if (logical > lastIndex) return lastTime + (logical - lastIndex) * timeframe;
+        return data[Math.round(logical)].time as number;
+    };
+
+    const top = series.coordinateToPrice(0);
+    const bottom = series.coordinateToPrice(chart.paneSize().height);
+    if (top === null || bottom === null) return null;
+
+    return {
+        fromTime: Math.floor(logicalToTime(range.from)),
+        toTime: Math.ceil(logicalToTime(range.to)) + timeframe,
+        lowPrice: Math.min(top, bottom),
+        highPrice: Math.max(top, bottom),
+    };
+};
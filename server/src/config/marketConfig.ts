@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { MarketRoomConfig, PriceFeedConfig, PriceFeedProvider } from '@trader-master/shared';
+import { validateRoomConfig, validateSymbolConfig } from './validateRoomConfig';
+
+export interface SymbolConfig {
+    /** Feed rooms on this symbol use unless their template sets `priceFeed` (default pyth) */
+    provider?: PriceFeedProvider;
+    /** Pyth price ID */
+    feedId?: string;
+    tickSize: number;
+}
+
+export interface RoomTemplate extends Partial<MarketRoomConfig> {
+    /** Create a room from this template when the server starts */
+    autoStart?: boolean;
+}
+
+export interface MarketConfig {
+    symbols: Record<string, SymbolConfig>;
+    templates: Record<string, RoomTemplate>;
+}
+
+/** Path of the symbol / room template file, relative to the server working directory */
+export const MARKET_CONFIG_FILE = process.env.MARKET_CONFIG || 'config/markets.json';
+
+/** Nested settings merged field by field when overridden (priceFeed is replaced as a whole) */
+const MERGED_SETTINGS = ['volatility', 'risk', 'customBox', 'cellBand', 'feedGuard'] as const;
+
+type MergedSetting = typeof MERGED_SETTINGS[number];
+
+export class MarketConfigError extends Error {
+    constructor(file: string, public readonly details: string[]) {
+        super(`Invalid market config ${file}:\n  - ${details.join('\n  - ')}`);
+        this.name = 'MarketConfigError';
+    }
+}
+
+/**
+ * Apply a template's symbol defaults (feed, tick size) and then the overrides on top of it
+ */
+export function buildRoomConfig(config: MarketConfig, templateName: string, overrides: Partial<MarketRoomConfig> = {}): Partial<MarketRoomConfig> {
+    const { autoStart: _autoStart, ...template } = config.templates[templateName];
+    const room: Partial<MarketRoomConfig> = { ...template, ...overrides };
+    MERGED_SETTINGS.forEach(key => mergeSection(room, template, overrides, key));
+
+    const symbol = room.symbol ? config.symbols[room.symbol] : undefined;
+    if (symbol) {
+        room.tickSize = room.tickSize ?? symbol.tickSize;
+        if (!room.priceFeed) {
+            room.priceFeed = symbolFeed(symbol);
+        } else if (room.priceFeed.provider === 'pyth' && !room.priceFeed.priceId && symbol.feedId) {
+            room.priceFeed = { ...room.priceFeed, priceId: symbol.feedId };
+        }
+    }
+    return room;
+}
+
+/**
+ * Set a nested setting of the room to the template's fields with the override's on top, when both have it
+ */
+function mergeSection<K extends MergedSetting>(room: Partial<MarketRoomConfig>, template: RoomTemplate, overrides: Partial<MarketRoomConfig>, key: K) {
+    const base = template[key];
+    const override = overrides[key];
+    if (base && override) {
+        room[key] = { ...base, ...override };
+    }
+}
+
+function symbolFeed(symbol: SymbolConfig): PriceFeedConfig {
+    const provider = symbol.provider || 'pyth';
+    if (provider === 'pyth') {
+        return { provider, priceId: symbol.feedId };
+    }
+    if (provider === 'simulated') {
+        return { provider };
+    }
+    // A replay needs a recording, which only a template can name
+    throw new Error(`Symbol feed provider ${provider} needs a priceFeed in the room template`);
+}
+
+/**
+ * Read and validate the market config file; every problem is reported at once
+ */
+export function loadMarketConfig(file: string = MARKET_CONFIG_FILE): MarketConfig {
+    const fullPath = path.resolve(file);
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+    } catch (e: any) {
+        throw new MarketConfigError(fullPath, [e.code === 'ENOENT' ? 'file not found' : e.message]);
+    }
+
+    const errors: string[] = [];
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new MarketConfigError(fullPath, ['top level must be an object with symbols and templates']);
+    }
+    Object.keys(raw).forEach(key => {
+        if (key !== 'symbols' && key !== 'templates') errors.push(`${key} is not a known section`);
+    });
+    ['symbols', 'templates'].forEach(key => {
+        if (typeof raw[key] !== 'object' || raw[key] === null || Array.isArray(raw[key])) {
+            errors.push(`${key} must be an object`);
+        }
+    });
+    if (errors.length > 0) {
+        throw new MarketConfigError(fullPath, errors);
+    }
+
+    Object.entries(raw.symbols).forEach(([name, symbol]) => {
+        errors.push(...validateSymbolConfig(symbol, `symbols.${name}`));
+    });
+    if (errors.length > 0) {
+        throw new MarketConfigError(fullPath, errors);
+    }
+
+    const config = raw as MarketConfig;
+    const symbols = Object.keys(config.symbols);
+    Object.entries(config.templates).forEach(([name, template]) => {
+        if (typeof template !== 'object' || template === null || Array.isArray(template)) {
+            errors.push(`templates.${name} must be an object`);
+            return;
+        }
+        if (template.autoStart !== undefined && typeof template.autoStart !== 'boolean') {
+            errors.push(`templates.${name}.autoStart must be a boolean`);
+        }
+        try {
+            validateRoomConfig(buildRoomConfig(config, name), symbols)
+                .forEach(error => errors.push(`templates.${name}.${error}`));
+        } catch (e: any) {
+            errors.push(`templates.${name}: ${e.message}`);
+        }
+    });
+    if (errors.length > 0) {
+        throw new MarketConfigError(fullPath, errors);
+    }
+
+    return config;
+}
+
+/** Symbols and room templates, loaded once at startup */
+export const marketConfig = loadMarketConfig();
@@ -0,0 +1,211 @@
+import { MarketRoomConfig, MIN_BET, MAX_BET, CUSTOM_BOX_MIN_DURATION, CUSTOM_BOX_MAX_DURATION } from '@trader-master/shared';
+
+type Check = (value: any, path: string) => string | null;
+
+const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+const number = (min: number, max: number = Infinity, { integer = false, exclusiveMin = false } = {}): Check => (value, path) => {
+    if (!isNumber(value) || (integer && !Number.isInteger(value))) {
+        return `${path} must be ${integer ? 'an integer' : 'a number'}`;
+    }
+    if (exclusiveMin ? value <= min : value < min) {
+        return `${path} must be ${exclusiveMin ? 'greater than' : 'at least'} ${min}`;
+    }
+    if (value > max) {
+        return `${path} must be at most ${max}`;
+    }
+    return null;
+};
+
+const positive = (options: { integer?: boolean } = {}) => number(0, Infinity, { ...options, exclusiveMin: true });
+const ratio = number(0, 1);
+
+const string: Check = (value, path) =>
+    typeof value === 'string' && value.trim() !== '' ? null : `${path} must be a non-empty string`;
+
+const boolean: Check = (value, path) => typeof value === 'boolean' ? null : `${path} must be a boolean`;
+
+const oneOf = (...options: string[]): Check => (value, path) =>
+    options.includes(value) ? null : `${path} must be one of ${options.join(', ')}`;
+
+/**
+ * Check an object's fields; unknown fields are reported so typos do not silently fall back to defaults
+ */
+function validateObject(value: any, path: string, fields: Record<string, Check>, required: string[] = []): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+    }
+
+    const errors: string[] = [];
+    required.forEach(key => {
+        if (value[key] === undefined) errors.push(`${path ? `${path}.` : ''}${key} is required`);
+    });
+    Object.keys(value).forEach(key => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const check = fields[key];
+        if (!check) {
+            errors.push(`${fieldPath} is not a known setting`);
+            return;
+        }
+        if (value[key] === undefined) return;
+        const error = check(value[key], fieldPath);
+        if (error) errors.push(...error.split('\n'));
+    });
+    return errors;
+}
+
+const object = (fields: Record<string, Check>, required: string[] = []): Check => (value, path) => {
+    const errors = validateObject(value, path, fields, required);
+    return errors.length > 0 ? errors.join('\n') : null;
+};
+
+const priceFeed: Check = (value, path) => {
+    const provider = value?.provider;
+    switch (provider) {
+        case 'pyth':
+            return object({ provider: string, priceId: string })(value, path);
+        case 'simulated':
+            return object({
+                provider: string,
+                startPrice: positive(),
+                drift: number(-Infinity),
+                volatility: number(0),
+                jumpIntensity: number(0),
+                jumpMean: number(-Infinity),
+                jumpStdDev: number(0),
+                seed: number(-Infinity, Infinity, { integer: true }),
+                updateInterval: positive({ integer: true }),
+            })(value, path);
+        case 'replay':
+            return object({
+                provider: string,
+                file: string,
+                format: oneOf('csv', 'jsonl'),
+                startOffset: number(0),
+                speed: positive(),
+                loop: boolean,
+            }, ['file'])(value, path);
+        default:
+            return `${path}.provider must be one of pyth, simulated, replay`;
+    }
+};
+
+const stakePresets: Check = (value, path) => {
+    if (!Array.isArray(value) || value.length === 0) {
+        return `${path} must be a non-empty array`;
+    }
+    const errors = value.map((preset, i) => positive()(preset, `${path}[${i}]`)).filter(Boolean);
+    return errors.length > 0 ? errors.join('\n') : null;
+};
+
+const roomConfigFields: Record<keyof MarketRoomConfig, Check> = {
+    roomName: string,
+    symbol: string,
+    priceFeed,
+    tickSize: positive(),
+    predictionDuration: positive({ integer: true }),
+    predictionPriceHeight: positive(),
+    predictionGenerationInterval: positive({ integer: true }),
+    predictionLayers: positive({ integer: true }),
+    predictionInitialColumns: positive({ integer: true }),
+    cellBand: object({
+        mode: oneOf('layers', 'sigma'),
+        layers: positive({ integer: true }),
+        sigma: positive(),
+    }),
+    predictionBetLockWindow: number(0),
+    predictionRepriceInterval: positive(),
+    settlementRule: oneOf('stay', 'touch', 'close', 'avoid'),
+    feedGuard: object({
+        staleAfter: positive(),
+        maxConfRatio: positive(),
+        resumeAfter: number(0),
+    }),
+    volatility: object({
+        method: oneOf('ewma', 'rolling'),
+        lambda: number(0, 1, { exclusiveMin: true }),
+        window: positive({ integer: true }),
+        floor: number(0),
+        cap: positive(),
+        confWeight: ratio,
+    }),
+    risk: object({
+        maxCellLiability: positive(),
+        maxColumnLiability: positive(),
+        maxRoomLiability: positive(),
+        breachAction: oneOf('reject', 'trim'),
+        oddsSkew: ratio,
+    }),
+    minBet: positive(),
+    maxBet: positive(),
+    stakePresets,
+    customBox: object({
+        minDuration: positive({ integer: true }),
+        maxDuration: positive({ integer: true }),
+        maxHorizon: positive({ integer: true }),
+        minHeight: positive(),
+        maxHeight: positive(),
+        quoteTtl: positive(),
+    }),
+    comboMargin: ratio,
+    comboMaxLegs: number(2, Infinity, { integer: true }),
+    cancelFee: ratio,
+    cashOutMargin: ratio,
+};
+
+const symbolConfigFields: Record<string, Check> = {
+    provider: oneOf('pyth', 'simulated', 'replay'),
+    feedId: string,
+    tickSize: positive(),
+};
+
+/**
+ * Validate one entry of the `symbols` section of the market config file
+ */
+export function validateSymbolConfig(config: any, path: string): string[] {
+    const errors = validateObject(config, path, symbolConfigFields, ['tickSize']);
+    if (errors.length === 0 && (config.provider || 'pyth') === 'pyth' && !config.feedId) {
+        errors.push(`${path}.feedId is required for Pyth symbols`);
+    }
+    return errors;
+}
+
+/**
+ * Validate a complete room config (template plus overrides) before a room is created from it.
+ * When `symbols` is given the symbol must be one of them.
+ * Returns one message per problem; an empty list means the config is usable.
+ */
+export function validateRoomConfig(config: Partial<MarketRoomConfig>, symbols?: string[]): string[] {
+    const errors = validateObject(config, '', roomConfigFields, ['symbol']);
+    if (errors.length > 0) return errors;
+
+    if (symbols && !symbols.includes(config.symbol!)) {
+        errors.push(`symbol ${config.symbol} is not configured (known symbols: ${symbols.join(', ')})`);
+    }
+
+    // Relations between fields that are individually valid (missing fields take the room defaults)
+    const minBet = config.minBet ?? MIN_BET;
+    const maxBet = config.maxBet ?? MAX_BET;
+    if (minBet > maxBet) {
+        errors.push('minBet must not exceed maxBet');
+    }
+    config.stakePresets?.forEach((preset, i) => {
+        if (preset < minBet || preset > maxBet) {
+            errors.push(`stakePresets[${i}] must be between minBet (${minBet}) and maxBet (${maxBet})`);
+        }
+    });
+    if (config.volatility?.floor !== undefined && config.volatility?.cap !== undefined && config.volatility.floor > config.volatility.cap) {
+        errors.push('volatility.floor must not exceed volatility.cap');
+    }
+    const box = config.customBox;
+    if ((box?.minDuration ?? CUSTOM_BOX_MIN_DURATION) > (box?.maxDuration ?? CUSTOM_BOX_MAX_DURATION)) {
+        errors.push('customBox.minDuration must not exceed customBox.maxDuration');
+    }
+    if (box?.minHeight !== undefined && box?.maxHeight !== undefined && box.minHeight > box.maxHeight) {
+        errors.push('customBox.minHeight must not exceed customBox.maxHeight');
+    }
+    if (config.comboMargin !== undefined && config.comboMargin >= 1) {
+        errors.push('comboMargin must be less than 1');
+    }
+    return errors;
+}
@@ -5,12 +5,21 @@ import { playground } from "@colyseus/playground";
 import { Encoder } from "@colyseus/schema";
 import cors from 'cors';
 import { MarketRoom } from './rooms/MarketRoom';
-import { roomTemplates } from './config/roomTemplates';
+import { marketConfig, buildRoomConfig } from './config/marketConfig';
+import { adminRouter, MARKET_ROOM } from './routes/admin';
+import { authRouter } from './routes/auth';
+import { leaderboardRouter } from './routes/leaderboard';
+import { historyRouter } from './routes/history';
+import { priceHistory, historyKey } from './storage';
+import { aggregateCandles, bucketTime } from './utils/candles';
+import { TIMEFRAMES } from '@trader-master/shared';
 
 // Increase Colyseus Schema buffer size to handle large state (e.g. many prediction cells)
 Encoder.BUFFER_SIZE = 1024 * 1024; // 1 MB
 
 const port = Number(process.env.PORT || 3000);
+/** Largest number of candles returned by one /room/:roomId/candles request */
+const MAX_CANDLES_PER_PAGE = 1000;
 
 const server = defineServer({
     devMode: false,
@@ -38,6 +47,44 @@ const server = defineServer({
             }
         });
 
+        // API to page back through a room's recorded candles
+        // GET /room/:roomId/candles?from=<unix s>&to=<unix s>&tf=<seconds>
+        app.get('/room/:roomId/candles', async (req, res) => {
+            try {
+                const rooms = await matchMaker.query({ roomId: req.params.roomId });
+                if (rooms.length === 0) {
+                    res.status(404).json({ error: "Room not found" });
+                    return;
+                }
+                const { symbol, priceFeed } = rooms[0].metadata || {};
+
+                const timeframe = req.query.tf === undefined ? 1 : Number(req.query.tf);
+                if (!TIMEFRAMES.includes(timeframe)) {
+                    res.status(400).json({ error: `tf must be one of ${TIMEFRAMES.join(', ')}` });
+                    return;
+                }
+                const to = req.query.to === undefined ? Math.floor(Date.now() / 1000) : Number(req.query.to);
+                const from = req.query.from === undefined ? to - MAX_CANDLES_PER_PAGE * timeframe : Number(req.query.from);
+                if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+                    res.status(400).json({ error: "Invalid from / to" });
+                    return;
+                }
+
+                // Keep at most one page, counted back from `to`, starting on a bucket boundary
+                const start = bucketTime(Math.max(from, to - MAX_CANDLES_PER_PAGE * timeframe + 1), timeframe);
+                const candles = await priceHistory.getCandles(historyKey(symbol, priceFeed), start, to);
+                res.json({
+                    symbol,
+                    timeframe,
+                    from: start,
+                    to,
+                    candles: timeframe === 1 ? candles : aggregateCandles(candles, timeframe),
+                });
+            } catch (e: any) {
+                res.status(e.code || 500).json({ code: e.code, message: e.message });
+            }
+        });
+
         // Custom room listing API
         app.get('/rooms/:roomName', async (req, res) => {
             try {
@@ -54,6 +101,18 @@ const server = defineServer({
             }
         });
 
+        // Guest / named account tokens for joining rooms
+        app.use('/auth', authRouter);
+
+        // Global and per-room leaderboards
+        app.use('/leaderboard', leaderboardRouter);
+
+        // The signed-in player's bet history and analytics
+        app.use('/history', historyRouter);
+
+        // Admin API (room lifecycle, risk exposure, bet ledger, ...)
+        app.use('/admin', adminRouter);
+
         // Debug API to inspect rooms
         app.get('/debug/rooms', async (req, res) => {
             try {
@@ -73,21 +132,22 @@ const server = defineServer({
 
 server.listen(port).then(async () => {
     console.log(`Listening on ws://localhost:${port}`);
-    try {
-        // Create rooms based on templates
-        const defaultRoom = 'market';
-        const template = roomTemplates['default'];
-        
-        const existing = await matchMaker.query({ name: defaultRoom });
-        if (existing.length === 0) {
-            console.log(`Creating default room: ${defaultRoom} with template:`, template);
-            await matchMaker.create(defaultRoom, {
-                ...template,
+
+    // Create a room from every template marked autoStart (unless one is already running)
+    const existing = await matchMaker.query({ name: MARKET_ROOM });
+    for (const [templateName, template] of Object.entries(marketConfig.templates)) {
+        if (!template.autoStart) continue;
+        if (existing.some((r: any) => r.metadata?.template === templateName)) continue;
+
+        try {
+            const room = await matchMaker.create(MARKET_ROOM, {
+                ...buildRoomConfig(marketConfig, templateName),
+                template: templateName,
                 // Do not pass 'roomName' in options as it is reserved
             });
-            console.log('Created default market room.');
+            console.log(`Created market room ${room.roomId} from template ${templateName}`);
+        } catch (e) {
+            console.error(`Failed to create room from template ${templateName}:`, e);
         }
-    } catch (e) {
-        console.error('Failed to ensure default room:', e);
     }
 });
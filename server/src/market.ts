@@ -1,23 +1,61 @@
-import { Candle } from '@trader-master/shared';
+import { Candle, TIMEFRAMES, CANDLE_SERIES_LIMIT } from '@trader-master/shared';
+import { aggregateCandles, mergeCandle } from './utils/candles';
+
+/** Seconds a candle stays open after its second has passed, for prices published in it that arrive late */
+const CLOSE_DELAY = 1;
+/** Publish times further than this (seconds) from the wall clock are not trusted (e.g. replayed data) */
+const MAX_PUBLISH_SKEW = 60;
+
+/** Prices received for one second that has not been closed yet */
+interface PendingCandle {
+    high: number;
+    low: number;
+    close: number;
+}
 
 export class Market {
     private currentPrice: number;
     private history: Candle[] = [];
+    /** Coarser timeframes (seconds) aggregated from the 1s history */
+    private aggregates = new Map<number, Candle[]>();
+    /** Time of the latest closed candle */
     private currentTime: number;
-
-    // For aggregating real-time updates
-    private pendingHigh: number = -Infinity;
-    private pendingLow: number = Infinity;
-    private lastUpdatePrice: number = 0;
-
-    constructor(startPrice: number = 100) {
+    /** Publish time (bucket) of the price currentPrice was taken from */
+    private currentPriceTime: number;
+    /** Whether the history was loaded from storage rather than generated */
+    private hasStoredHistory: boolean;
+
+    /** Real-time prices by the second they were published in, until that second is closed */
+    private pending = new Map<number, PendingCandle>();
+
+    /**
+     * @param startPrice latest known price
+     * @param stored recorded 1s candles (oldest first); when empty, one hour of
+     *               synthetic history flagged `synthetic` is generated instead
+     */
+    constructor(startPrice: number = 100, stored: Candle[] = []) {
         this.currentPrice = startPrice;
-        this.lastUpdatePrice = startPrice;
-        
-        // Use current time as the end of history
-        const now = Math.floor(Date.now() / 1000);
+
+        // History ends at the latest second that can be closed now
+        const now = Market.closableTime(Date.now());
         this.currentTime = now;
-        
+        this.currentPriceTime = now;
+
+        const history = stored.length > 0
+            ? stored.filter(c => c.time <= now).slice(-5000)
+            : Market.generateHistory(startPrice, now);
+        this.hasStoredHistory = stored.length > 0;
+        this.history = history;
+
+        TIMEFRAMES.filter(tf => tf > 1).forEach(tf => {
+            this.aggregates.set(tf, aggregateCandles(history, tf, CANDLE_SERIES_LIMIT));
+        });
+    }
+
+    /**
+     * Random-walk one hour of 1s candles ending at `now` and closing at `startPrice`
+     */
+    private static generateHistory(startPrice: number, now: number): Candle[] {
         // Generate 1 hour of history backwards
         let price = startPrice;
         // Volatility: 0.02% per second approx
@@ -49,48 +87,73 @@ export class Market {
                 open,
                 high,
                 low,
-                close
+                close,
+                synthetic: true
             });
             
             price = prevPrice;
         }
         
-        this.history = history;
+        return history;
     }
 
-    public updatePrice(price: number) {
-        this.currentPrice = price;
-        this.lastUpdatePrice = price;
-        
-        // Update high/low for the current interval
-        if (price > this.pendingHigh) this.pendingHigh = price;
-        if (price < this.pendingLow) this.pendingLow = price;
+    /**
+     * Latest second whose candle can be closed at `wallMs`
+     */
+    private static closableTime(wallMs: number): number {
+        return Math.floor(wallMs / 1000) - 1 - CLOSE_DELAY;
     }
 
-    public tick(): Candle {
-        // Real-time tick
-        let open = this.history.length > 0 ? this.history[this.history.length - 1].close : this.currentPrice;
-        let close = this.currentPrice;
-        let high = this.pendingHigh;
-        let low = this.pendingLow;
+    /**
+     * Add a real-time price to the candle of the second it was published in.
+     * Without a usable publish time (missing, or too far from the wall clock) the arrival time is used.
+     * Returns that second, or null when its candle was already closed and the price is dropped.
+     */
+    public updatePrice(price: number, publishTime?: number): number | null {
+        const wall = Date.now() / 1000;
+        const time = Math.floor(publishTime !== undefined && Math.abs(publishTime - wall) <= MAX_PUBLISH_SKEW ? publishTime : wall);
+        if (time <= this.currentTime) {
+            return null;
+        }
+
+        if (time >= this.currentPriceTime) {
+            this.currentPrice = price;
+            this.currentPriceTime = time;
+        }
 
-        // Reset pending values
-        this.pendingHigh = -Infinity;
-        this.pendingLow = Infinity;
+        const pending = this.pending.get(time);
+        if (pending) {
+            pending.high = Math.max(pending.high, price);
+            pending.low = Math.min(pending.low, price);
+            pending.close = price;
+        } else {
+            this.pending.set(time, { high: price, low: price, close: price });
+        }
+        return time;
+    }
 
-        // If no updates received, use last known price
-        if (high === -Infinity) high = Math.max(open, close);
-        if (low === Infinity) low = Math.min(open, close);
+    /**
+     * Close every second that has passed (allowing CLOSE_DELAY for late prices) and return the
+     * new candles, oldest first: none when called again within the same second, several when
+     * the timer was delayed. A second without any price becomes a flat `gap` candle at the previous close.
+     */
+    public tick(wallMs: number = Date.now()): Candle[] {
+        const candles: Candle[] = [];
+        for (let time = this.currentTime + 1; time <= Market.closableTime(wallMs); time++) {
+            candles.push(this.closeCandle(time));
+        }
+        return candles;
+    }
 
-        this.currentTime += 1; // 1 second per tick
+    private closeCandle(time: number): Candle {
+        const open = this.history.length > 0 ? this.history[this.history.length - 1].close : this.currentPrice;
+        const pending = this.pending.get(time);
+        this.pending.delete(time);
 
-        const candle: Candle = {
-            time: this.currentTime,
-            open,
-            high,
-            low,
-            close
-        };
+        const candle: Candle = pending
+            ? { time, open, high: pending.high, low: pending.low, close: pending.close }
+            : { time, open, high: open, low: open, close: open, gap: true };
+        this.currentTime = time;
 
         this.history.push(candle);
         
@@ -99,6 +162,8 @@ export class Market {
             this.history.shift();
         }
 
+        this.aggregates.forEach((series, tf) => mergeCandle(series, candle, tf, CANDLE_SERIES_LIMIT));
+
         return candle;
     }
 
@@ -106,6 +171,49 @@ export class Market {
         return this.history;
     }
 
+    /**
+     * Candle series of a timeframe in seconds (1 = the raw history), oldest first
+     */
+    public getSeries(timeframe: number): Candle[] {
+        return timeframe === 1 ? this.history : this.aggregates.get(timeframe) || [];
+    }
+
+    /**
+     * The latest, possibly still forming, candle of a timeframe
+     */
+    public getLatest(timeframe: number): Candle | undefined {
+        const series = this.getSeries(timeframe);
+        return series[series.length - 1];
+    }
+
+    /**
+     * Candles whose time falls inside [from, to] (inclusive), oldest first
+     */
+    public getCandles(from: number, to: number): Candle[] {
+        const result: Candle[] = [];
+        for (let i = this.history.length - 1; i >= 0; i--) {
+            const candle = this.history[i];
+            if (candle.time < from) break;
+            if (candle.time <= to) result.unshift(candle);
+        }
+        return result;
+    }
+
+    /**
+     * Candles inside [from, to] built from prices published in their second, i.e. without gap candles:
+     * what settlement decides on
+     */
+    public getPublishedCandles(from: number, to: number): Candle[] {
+        return this.getCandles(from, to).filter(candle => !candle.gap);
+    }
+
+    /**
+     * Where the history before this session came from
+     */
+    public getHistorySource(): 'stored' | 'synthetic' {
+        return this.hasStoredHistory ? 'stored' : 'synthetic';
+    }
+
     public getCurrentPrice(): number {
         return this.currentPrice;
     }
@@ -1,18 +1,93 @@
-import { Room, Client, RoomOptions } from "colyseus";
-import { MarketState, Bet, PredictionCell, Player, MessageType, MarketRoomConfig, PlaceBetPayload, PREDICTION_DURATION, PREDICTION_PRICE_HEIGHT, PREDICTION_GENERATION_INTERVAL, PREDICTION_LAYERS, PREDICTION_INITIAL_COLUMNS, PREDICTION_BET_LOCK_WINDOW } from "@trader-master/shared";
+import { Room, Client, RoomOptions, matchMaker, AuthContext, ServerError } from "colyseus";
+import { StateView } from "@colyseus/schema";
+import crypto from "crypto";
+import { Candle, BetData, ComboBetData, MarketState, Bet, BetStatus, ComboBet, ComboLeg, PredictionCell, Player, MessageType, MarketRoomConfig, PlaceBetPayload, PlaceComboPayload, BetActionPayload, CashOutPayload, BetQuote, RequestQuotePayload, AcceptQuotePayload, SubscribeTimeframePayload, ViewportPayload, MarketStatusPayload, Quote, PriceBox, CustomBoxConfig, CellBandConfig, FeedGuardConfig, RoomLeaderboards, PREDICTION_DURATION, PREDICTION_PRICE_HEIGHT, PREDICTION_GENERATION_INTERVAL, PREDICTION_LAYERS, PREDICTION_INITIAL_COLUMNS, PREDICTION_BET_LOCK_WINDOW, PREDICTION_REPRICE_INTERVAL, SETTLEMENT_RULE, BET_CANCEL_FEE, CASH_OUT_MARGIN, MIN_BET, MAX_BET, STAKE_PRESETS, COMBO_MARGIN, COMBO_MAX_LEGS, CUSTOM_BOX_MIN_DURATION, CUSTOM_BOX_MAX_DURATION, CUSTOM_BOX_MAX_HORIZON, QUOTE_TTL, LEADERBOARD_INTERVAL, TIMEFRAMES, TICK_SIZE, CELL_BAND_SIGMA, VIEWPORT_MARGIN, FEED_STALE_AFTER, FEED_MAX_CONF_RATIO, FEED_RESUME_AFTER } from "@trader-master/shared";
 import { Market } from "../market";
 import { BlackScholes } from "../utils/bs";
-import { PythService } from "../services/PythService";
+import { isWinningPath } from "../utils/settlement";
+import { VolatilityEstimator } from "../utils/volatility";
+import { PriceFeed, PriceUpdate } from "../services/PriceFeed";
+import { createPriceFeed } from "../services/createPriceFeed";
+import { RiskEngine, RiskCell } from "../services/RiskEngine";
+import { SettlementQueue, CellBetCounts } from "../services/SettlementQueue";
+import { getRoomLeaderboards } from "../services/Leaderboard";
+import { accountStore, ledger, priceHistory, historyKey, openAccount, LedgerCell, LedgerEntryInput, LedgerEntryType, HOUSE_ACCOUNT, playerAccount } from "../storage";
+import { AuthUser, verifyToken } from "../utils/token";
 
-export type MarketRoomOptions = RoomOptions & MarketRoomConfig
+export type MarketRoomOptions = RoomOptions & MarketRoomConfig & {
+    /** Name of the room template the config was built from */
+    template?: string;
+}
+
+/**
+ * How a room being closed deals with open bets: wait for them to settle, or refund them right away
+ */
+export type ShutdownMode = 'settle' | 'refund';
+
+/** Seconds a finished feed outage is kept; bets overlapping it have all settled by then */
+const OUTAGE_RETENTION = 3600;
+
+const isInArea = (box: PriceBox, area: ViewportPayload) =>
+    box.endTime >= area.fromTime && box.startTime <= area.toTime
+    && box.highPrice >= area.lowPrice && box.lowPrice <= area.highPrice;
 
 export class MarketRoom extends Room {
     state: MarketState = new MarketState();
     private market: Market;
     private lastGenerationTime: number = 0;
-    private pyth: PythService;
+    private lastRepriceTime: number = 0;
+    private feed: PriceFeed;
+    private volatility: VolatilityEstimator;
+    private risk: RiskEngine;
     private initialized: boolean = false;
+    /** The first price arrived and the stored history is being loaded */
+    private initializing: boolean = false;
+    /** Recorded 1s candles to start the market from, loaded in onCreate */
+    private storedHistory: Promise<Candle[]>;
+    private historyKey: string;
+    /** Market time from which this room has observed real prices */
+    private observedSince: number = 0;
+    /** userIds currently inside their reconnection window */
+    private reconnecting = new Set<string>();
+    /** Player loads in flight by userId, so concurrent joins of one user restore its open bets only once */
+    private pendingJoins = new Map<string, Promise<Player>>();
+    /** Candle timeframe each client (by sessionId) subscribed to, when coarser than 1s */
+    private timeframes = new Map<string, number>();
+    /** Pending bets and combos by the time they are next due for settlement (a combo: its next leg's end) */
+    private dueBets = new SettlementQueue<{ userId: string; betId: string }>();
+    private dueCombos = new SettlementQueue<{ userId: string; comboId: string }>();
+    /** Prediction cells by the time they may be cleaned up, and how many bets / combo legs still use each */
+    private expiringCells = new SettlementQueue<string>();
+    private cellBets = new CellBetCounts();
+    /** Cells created since the last tick, still to be offered to client views */
+    private newCells: PredictionCell[] = [];
+    /** Chart area each client (by sessionId) reported; cells in and near it are added to the client's view */
+    private viewports = new Map<string, ViewportPayload>();
+    /** Outstanding custom-box quotes by id, until accepted or expired */
+    private quotes = new Map<string, { quote: Quote; userId: string }>();
+    /** Leaderboards are recomputed (at most every LEADERBOARD_INTERVAL) once a bet settles */
+    private leaderboards: RoomLeaderboards | null = null;
+    private leaderboardDirty: boolean = true;
+    private lastLeaderboardTime: number = 0;
+    private sessionStart: number = Date.now();
+    /** Set once an admin closes the room: no new bets, disposed when no bet is left open */
+    private closing: ShutdownMode | null = null;
+    private disconnecting: boolean = false;
+    /** Latest second a feed update was published in, and that update's confidence relative to the price */
+    private lastFeedTime: number = 0;
+    private lastConfRatio: number = 0;
+    /** Set while betting is paused because the feed is stale or too uncertain */
+    private halt: { reason: string; since: number } | null = null;
+    /** Market time from which the feed has been healthy again during a halt */
+    private healthySince: number | null = null;
+    /** Market time ranges in which prices could not be trusted; bets whose window overlaps one are refunded */
+    private outages: { from: number; to: number }[] = [];
     private options: Required<MarketRoomConfig>;
+    private customBox: Required<CustomBoxConfig>;
+    private cellBand: Required<CellBandConfig>;
+    private feedGuard: Required<FeedGuardConfig>;
+    /** Layer range [minLayer, maxLayer) generated so far for each column still open for betting, by start time */
+    private columns = new Map<number, { minLayer: number; maxLayer: number }>();
 
     onCreate(options: MarketRoomOptions) {
         console.log("MarketRoom created", options);
@@ -23,73 +98,155 @@ export class MarketRoom extends Room {
         this.options = {
             roomName: options.roomName || this.roomName,
             symbol: options.symbol,
+            priceFeed: options.priceFeed || { provider: 'pyth' },
+            tickSize: options.tickSize || TICK_SIZE,
             predictionDuration: options.predictionDuration || PREDICTION_DURATION,
             predictionPriceHeight: options.predictionPriceHeight || PREDICTION_PRICE_HEIGHT,
             predictionGenerationInterval: options.predictionGenerationInterval || PREDICTION_GENERATION_INTERVAL,
             predictionLayers: options.predictionLayers || PREDICTION_LAYERS,
             predictionInitialColumns: options.predictionInitialColumns || PREDICTION_INITIAL_COLUMNS,
+            cellBand: options.cellBand || {},
             predictionBetLockWindow: options.predictionBetLockWindow || PREDICTION_BET_LOCK_WINDOW,
+            predictionRepriceInterval: options.predictionRepriceInterval || PREDICTION_REPRICE_INTERVAL,
+            settlementRule: options.settlementRule || SETTLEMENT_RULE,
+            feedGuard: options.feedGuard || {},
+            volatility: options.volatility || {},
+            risk: options.risk || {},
+            minBet: options.minBet || MIN_BET,
+            maxBet: options.maxBet || MAX_BET,
+            stakePresets: options.stakePresets || STAKE_PRESETS,
+            comboMargin: options.comboMargin ?? COMBO_MARGIN,
+            comboMaxLegs: options.comboMaxLegs || COMBO_MAX_LEGS,
+            cancelFee: options.cancelFee ?? BET_CANCEL_FEE,
+            cashOutMargin: options.cashOutMargin ?? CASH_OUT_MARGIN,
+            customBox: options.customBox || {},
+        };
+        const priceHeight = this.options.predictionPriceHeight;
+        this.customBox = {
+            minDuration: CUSTOM_BOX_MIN_DURATION,
+            maxDuration: CUSTOM_BOX_MAX_DURATION,
+            maxHorizon: CUSTOM_BOX_MAX_HORIZON,
+            minHeight: priceHeight / 2,
+            maxHeight: priceHeight * 10,
+            quoteTtl: QUOTE_TTL,
+            ...this.options.customBox,
+        };
+        this.options.customBox = this.customBox;
+        this.cellBand = {
+            mode: 'layers',
+            layers: this.options.predictionLayers,
+            sigma: CELL_BAND_SIGMA,
+            ...this.options.cellBand,
+        };
+        this.options.cellBand = this.cellBand;
+        this.feedGuard = {
+            staleAfter: FEED_STALE_AFTER,
+            maxConfRatio: FEED_MAX_CONF_RATIO,
+            resumeAfter: FEED_RESUME_AFTER,
+            ...this.options.feedGuard,
         };
+        this.options.feedGuard = this.feedGuard;
         this.autoDispose = false;
 
-        this.setMetadata(this.options);
+        this.setMetadata({ ...this.options, template: options.template });
 
         this.state = new MarketState();
-        // Initialize with placeholder, will be reset by Pyth
+        // Initialize with placeholder, will be reset by the first price from the feed
         this.market = new Market(100.0);
+        this.volatility = new VolatilityEstimator(this.options.volatility);
+        this.risk = new RiskEngine(this.options.risk, this.options.settlementRule);
 
-        this.pyth = new PythService(this.options.symbol);
-        this.pyth.on('price_update', (data) => {
+        this.feed = createPriceFeed(this.options.symbol, this.options.priceFeed);
+        this.historyKey = historyKey(this.options.symbol, this.options.priceFeed);
+        this.storedHistory = priceHistory.getRecentCandles(this.historyKey, 3600).catch(err => {
+            console.error(`Failed to load price history for ${this.historyKey}:`, err);
+            return [];
+        });
+
+        this.feed.on('price_update', (data: PriceUpdate) => {
             if (!this.initialized) {
-                console.log(`First price received: ${data.price}. Initializing Market...`);
-                this.market = new Market(data.price);
-                this.initialized = true;
-
-                // Initial Generation: Cover the right side of the chart (future)
-                const now = this.market.getCurrentTime();
-                const currentPrice = this.market.getCurrentPrice();
-                
-                for (let i = 0; i < this.options.predictionInitialColumns; i++) {
-                    this.generatePredictionCells(currentPrice, now + i * this.options.predictionGenerationInterval);
+                if (!this.initializing) {
+                    this.initializing = true;
+                    this.storedHistory.then(stored => this.initializeMarket(data.price, stored));
                 }
-                this.lastGenerationTime = now + (this.options.predictionInitialColumns - 1) * this.options.predictionGenerationInterval;
-                
-                // Broadcast new history to all clients so they sync with the real price
-                this.broadcast(MessageType.HISTORY, this.market.getHistory());
+                return;
             }
-            this.market.updatePrice(data.price);
+            priceHistory.appendTick(this.historyKey, { time: data.time, receivedAt: Date.now(), price: data.price, conf: data.conf });
+            // Published in a second that is already closed (and possibly settled on): too late to use
+            const time = this.market.updatePrice(data.price, data.time);
+            if (time === null) return;
+            this.lastFeedTime = Math.max(this.lastFeedTime, time);
+            this.lastConfRatio = data.price > 0 ? data.conf / data.price : Infinity;
+            this.volatility.updateConfidence(data.conf, data.price);
         });
-        this.pyth.start();
-
-        // Dummy initialization for debugging
-        // this.initialized = true;
-        // this.market = new Market(100.0);
-        // console.log("Dummy Market initialized");
+        this.feed.start();
 
         this.onMessage<PlaceBetPayload>(MessageType.PLACE_BET, (client, data) => this.handlePlaceBet(client, data));
+        this.onMessage<PlaceComboPayload>(MessageType.PLACE_COMBO, (client, data) => this.handlePlaceCombo(client, data));
+        this.onMessage<BetActionPayload>(MessageType.QUOTE_BET, (client, data) => this.handleQuoteBet(client, data));
+        this.onMessage<BetActionPayload>(MessageType.CANCEL_BET, (client, data) => this.handleCancelBet(client, data));
+        this.onMessage<CashOutPayload>(MessageType.CASH_OUT, (client, data) => this.handleCashOut(client, data));
+        this.onMessage<RequestQuotePayload>(MessageType.REQUEST_QUOTE, (client, data) => this.handleRequestQuote(client, data));
+        this.onMessage<AcceptQuotePayload>(MessageType.ACCEPT_QUOTE, (client, data) => this.handleAcceptQuote(client, data));
+        this.onMessage<SubscribeTimeframePayload>(MessageType.SUBSCRIBE_TIMEFRAME, (client, data) => this.handleSubscribeTimeframe(client, data));
+        this.onMessage<ViewportPayload>(MessageType.SET_VIEWPORT, (client, data) => this.handleSetViewport(client, data));
 
         // 1 second tick
         this.setSimulationInterval((deltaTime) => this.update(deltaTime), 1000);
     }
 
-    onDispose() {
+    /**
+     * Start the market from the first price: on the recorded history when there is any,
+     * otherwise on synthetic candles
+     */
+    private initializeMarket(price: number, stored: Candle[]) {
+        console.log(`First price received: ${price}. Initializing Market on ${stored.length > 0 ? `${stored.length} stored candles` : 'synthetic history'}...`);
+        this.market = new Market(price, stored);
+        this.setMetadata({ historySource: this.market.getHistorySource() });
+        this.volatility.seed(this.market.getHistory().filter(candle => !candle.gap));
+        this.state.volatility = this.volatility.getVolatility();
+        this.observedSince = this.market.getCurrentTime();
+        this.lastFeedTime = this.observedSince + 1;
+        this.initialized = true;
+
+        // Initial Generation: Cover the right side of the chart (future)
+        const now = this.market.getCurrentTime();
+        const currentPrice = this.market.getCurrentPrice();
+        
+        for (let i = 0; i < this.options.predictionInitialColumns; i++) {
+            this.generatePredictionCells(currentPrice, now + i * this.options.predictionGenerationInterval);
+        }
+        this.lastGenerationTime = now + (this.options.predictionInitialColumns - 1) * this.options.predictionGenerationInterval;
+        
+        // Broadcast new history to all clients so they sync with the real price
+        this.broadcast(MessageType.HISTORY, this.market.getHistory());
+        this.clients.forEach(client => this.sendCandles(client));
+    }
+
+    async onDispose() {
         console.log("MarketRoom dispose", this.roomName);
 
-        if (this.pyth) {
-            this.pyth.stop();
+        if (this.feed) {
+            this.feed.stop();
         }
+
+        // Make sure the last balance changes reach storage
+        await Promise.all([accountStore.flush(), ledger.flush(), priceHistory.flush()]);
     }
 
     handlePlaceBet(client: Client, data: PlaceBetPayload) {
-        const amount = Number(data.amount);
-        // 3. Bet: Minimum amount limit
-        if (!amount || amount < 10) {
-             client.send(MessageType.ERROR, { message: "Minimum bet amount is 10" });
+        if (this.rejectIfNotTrading(client)) return;
+        let amount = Number(data.amount);
+        // 3. Bet: Minimum / maximum amount limits
+        const stakeError = this.checkStake(amount);
+        if (stakeError) {
+             client.send(MessageType.ERROR, { message: stakeError });
              return;
         }
 
         // Check balance
-        const player = this.state.players.get(client.sessionId);
+        const userId = (client.auth as AuthUser).userId;
+        const player = this.state.players.get(userId);
         if (!player || player.balance < amount) {
             client.send(MessageType.ERROR, { message: "Insufficient balance" });
             return;
@@ -109,6 +266,13 @@ export class MarketRoom extends Room {
             return;
         }
 
+        // Odds are locked in at placement; refuse if the quote the player saw has since worsened
+        this.quoteCell(cell);
+        if (data.odds !== undefined && cell.odds < Number(data.odds)) {
+            client.send(MessageType.ERROR, { message: `Odds changed to ${cell.odds}, please confirm again` });
+            return;
+        }
+
         // Check if player already placed a bet on this cell
         let alreadyBet = false;
         player.bets.forEach((b) => {
@@ -122,207 +286,1390 @@ export class MarketRoom extends Room {
             return;
         }
 
+        // House exposure limits (may trim the stake)
+        const riskCheck = this.risk.checkBet(cell, amount, cell.odds);
+        if (riskCheck.amount < amount) {
+            if (riskCheck.amount < this.options.minBet) {
+                client.send(MessageType.ERROR, { message: riskCheck.reason || "Bet exceeds house limits" });
+                return;
+            }
+            console.log(`Bet on ${cell.id} trimmed from ${amount} to ${riskCheck.amount}: ${riskCheck.reason}`);
+            amount = riskCheck.amount;
+        }
+
         // Deduct balance
         if (player.balance < amount) {
             client.send(MessageType.ERROR, { message: "Insufficient balance" });
             return;
         }
-        player.balance -= amount;
-        console.log(`Player ${client.sessionId} balance deducted by ${amount}. New balance: ${player.balance}`);
-
-        const bet = new Bet();
-        bet.id = Math.random().toString(36).substring(7);
-        bet.cellId = cell.id;
-        bet.startTime = cell.startTime;
-        bet.endTime = cell.endTime;
-        bet.highPrice = cell.highPrice;
-        bet.lowPrice = cell.lowPrice;
-        bet.amount = amount;
-        bet.odds = cell.odds;
-        bet.status = "pending";
-        bet.ownerId = client.sessionId;
+        const bet = this.openBet(player, cell, amount, cell.odds, false);
 
-        player.bets.set(bet.id, bet);
-        console.log(`New bet placed: ${bet.id} by ${client.sessionId} Amount: ${amount} Odds: ${cell.odds}`);
+        // Re-quote the cell so one-sided flow skews its odds
+        this.priceCell(cell);
         
-        client.send(MessageType.BET_PLACED, { id: bet.id, odds: cell.odds, cellId: cell.id });
+        client.send(MessageType.BET_PLACED, { id: bet.id, odds: bet.odds, cellId: cell.id, amount });
     }
 
-    onAuth(client: Client, options: any, request: any) {
-        console.log("onAuth called for client:", client.sessionId, "Options:", options);
-        return true;
+    /**
+     * RFQ: price an arbitrary player-drawn box with the room's model and reply with a firm quote
+     * that stays valid for quoteTtl seconds
+     */
+    handleRequestQuote(client: Client, data: RequestQuotePayload) {
+        if (this.rejectIfNotTrading(client)) return;
+        const amount = Number(data.amount);
+        const stakeError = this.checkStake(amount);
+        if (stakeError) {
+            client.send(MessageType.ERROR, { message: stakeError });
+            return;
+        }
+
+        const box: PriceBox = {
+            startTime: Math.floor(Number(data.startTime)),
+            endTime: Math.ceil(Number(data.endTime)),
+            lowPrice: Number(data.lowPrice),
+            highPrice: Number(data.highPrice),
+        };
+        const boxError = this.checkCustomBox(box);
+        if (boxError) {
+            client.send(MessageType.ERROR, { message: boxError });
+            return;
+        }
+
+        const probability = this.getBoxProbability(box);
+        const quote: Quote = {
+            ...box,
+            id: crypto.randomUUID(),
+            amount,
+            probability,
+            odds: BlackScholes.calculateOdds(probability),
+            expiresAt: Date.now() + this.customBox.quoteTtl * 1000,
+        };
+        this.quotes.set(quote.id, { quote, userId: (client.auth as AuthUser).userId });
+
+        client.send(MessageType.QUOTE, quote);
     }
 
-    onJoin(client: Client, options: any) {
-        console.log("Client joined:", client.sessionId);
-        
-        // Check if player already exists (reconnection logic)
-        const existingPlayer = this.state.players.get(client.sessionId);
+    /** Store the chart area a client reports and resync which cells its view holds */
+    handleSetViewport(client: Client, data: ViewportPayload) {
+        const viewport = {
+            fromTime: Number(data.fromTime),
+            toTime: Number(data.toTime),
+            lowPrice: Number(data.lowPrice),
+            highPrice: Number(data.highPrice),
+        };
+        if (!Object.values(viewport).every(Number.isFinite) || viewport.fromTime > viewport.toTime || viewport.lowPrice > viewport.highPrice) {
+            client.send(MessageType.ERROR, { message: "Invalid viewport" });
+            return;
+        }
+        this.viewports.set(client.sessionId, viewport);
+        this.updateView(client);
+    }
+
+    /**
+     * Switch the candle timeframe a client receives and send it the full series.
+     * Every client keeps getting the 1s PRICE stream (settlement and cell timing run on it).
+     */
+    handleSubscribeTimeframe(client: Client, data: SubscribeTimeframePayload) {
+        const timeframe = Number(data.timeframe);
+        if (!TIMEFRAMES.includes(timeframe)) {
+            client.send(MessageType.ERROR, { message: `Unsupported timeframe: ${data.timeframe}` });
+            return;
+        }
+
+        if (timeframe === 1) {
+            this.timeframes.delete(client.sessionId);
+        } else {
+            this.timeframes.set(client.sessionId, timeframe);
+        }
+        this.sendCandles(client);
+    }
+
+    handleAcceptQuote(client: Client, data: AcceptQuotePayload) {
+        if (this.rejectIfNotTrading(client)) return;
+        const userId = (client.auth as AuthUser).userId;
+        const entry = this.quotes.get(data.quoteId);
+        if (!entry || entry.userId !== userId) {
+            client.send(MessageType.ERROR, { message: "Quote not found" });
+            return;
+        }
+        // A quote can only be used once
+        this.quotes.delete(data.quoteId);
+
+        const { quote } = entry;
+        if (Date.now() > quote.expiresAt) {
+            client.send(MessageType.ERROR, { message: "Quote expired, please request a new one" });
+            return;
+        }
+        // Time has moved on since the quote: the box must still be open for betting
+        const boxError = this.checkCustomBox(quote);
+        if (boxError) {
+            client.send(MessageType.ERROR, { message: boxError });
+            return;
+        }
+
+        const player = this.state.players.get(userId);
+        let amount = quote.amount;
+        if (!player || player.balance < amount) {
+            client.send(MessageType.ERROR, { message: "Insufficient balance" });
+            return;
+        }
+
+        // Custom boxes are tracked as their own cell in the risk engine, outside the grid columns
+        const cell: RiskCell & PriceBox = { ...quote, id: `custom:${quote.id}`, custom: true };
+        const riskCheck = this.risk.checkBet(cell, amount, quote.odds);
+        if (riskCheck.amount < amount) {
+            if (riskCheck.amount < this.options.minBet) {
+                client.send(MessageType.ERROR, { message: riskCheck.reason || "Bet exceeds house limits" });
+                return;
+            }
+            console.log(`Custom bet ${cell.id} trimmed from ${amount} to ${riskCheck.amount}: ${riskCheck.reason}`);
+            amount = riskCheck.amount;
+        }
+
+        const bet = this.openBet(player, cell, amount, quote.odds, true);
+        client.send(MessageType.BET_PLACED, { id: bet.id, odds: bet.odds, cellId: cell.id, amount });
+    }
+
+    /**
+     * Combo (parlay): one cell per consecutive column, all legs must win.
+     * Odds are the product of the legs' current odds minus the combo margin.
+     */
+    handlePlaceCombo(client: Client, data: PlaceComboPayload) {
+        if (this.rejectIfNotTrading(client)) return;
+        let amount = Number(data.amount);
+        const stakeError = this.checkStake(amount);
+        if (stakeError) {
+            client.send(MessageType.ERROR, { message: stakeError });
+            return;
+        }
+
+        const userId = (client.auth as AuthUser).userId;
+        const player = this.state.players.get(userId);
+        if (!player || player.balance < amount) {
+            client.send(MessageType.ERROR, { message: "Insufficient balance" });
+            return;
+        }
+
+        const cellIds = Array.isArray(data.cellIds) ? data.cellIds : [];
+        if (cellIds.length < 2 || cellIds.length > this.options.comboMaxLegs) {
+            client.send(MessageType.ERROR, { message: `A combo needs 2 to ${this.options.comboMaxLegs} legs` });
+            return;
+        }
+
+        const cells = cellIds.map(id => this.state.predictionCells.get(id));
+        if (cells.some(cell => !cell)) {
+            client.send(MessageType.ERROR, { message: "Prediction cell not found or expired" });
+            return;
+        }
+        const legs = (cells as PredictionCell[]).sort((a, b) => a.startTime - b.startTime);
+
+        // Only the first leg needs checking: later legs start even further out
+        const now = this.market.getCurrentTime();
+        if (legs[0].startTime <= now + this.options.predictionBetLockWindow) {
+            client.send(MessageType.ERROR, { message: "Betting for this cell is locked" });
+            return;
+        }
+
+        for (let i = 1; i < legs.length; i++) {
+            if (legs[i].startTime - legs[i - 1].startTime !== this.options.predictionGenerationInterval) {
+                client.send(MessageType.ERROR, { message: "Combo legs must be in consecutive columns" });
+                return;
+            }
+        }
+
+        legs.forEach(cell => this.quoteCell(cell));
+        const odds = this.getComboOdds(legs);
+        if (data.odds !== undefined && odds < Number(data.odds)) {
+            client.send(MessageType.ERROR, { message: `Odds changed to ${odds}, please confirm again` });
+            return;
+        }
+
+        const riskCheck = this.risk.checkCombo(amount, odds);
+        if (riskCheck.amount < amount) {
+            if (riskCheck.amount < this.options.minBet) {
+                client.send(MessageType.ERROR, { message: riskCheck.reason || "Bet exceeds house limits" });
+                return;
+            }
+            console.log(`Combo trimmed from ${amount} to ${riskCheck.amount}: ${riskCheck.reason}`);
+            amount = riskCheck.amount;
+        }
+
+        const combo = new ComboBet();
+        combo.id = crypto.randomUUID();
+        legs.forEach(cell => {
+            const leg = new ComboLeg();
+            leg.cellId = cell.id;
+            leg.startTime = cell.startTime;
+            leg.endTime = cell.endTime;
+            leg.highPrice = cell.highPrice;
+            leg.lowPrice = cell.lowPrice;
+            leg.odds = cell.odds;
+            leg.status = "pending";
+            combo.legs.push(leg);
+        });
+        combo.amount = amount;
+        combo.odds = odds;
+        combo.status = "pending";
+        combo.ownerId = userId;
+
+        this.recordBalanceChange(player, "bet_debit", amount, combo);
+        player.combos.set(combo.id, combo);
+        this.persistCombo(player, combo);
+        this.risk.addCombo(amount, odds);
+        this.trackCombo(player, combo);
+        console.log(`New combo placed: ${combo.id} by ${userId} Legs: ${legs.length} Amount: ${amount} Odds: ${odds}`);
+
+        client.send(MessageType.COMBO_PLACED, { id: combo.id, odds, amount, cellIds: legs.map(cell => cell.id) });
+    }
+
+    handleQuoteBet(client: Client, data: BetActionPayload) {
+        const player = this.state.players.get((client.auth as AuthUser).userId);
+        const bet = player?.bets.get(data?.betId);
+        if (!bet) {
+            client.send(MessageType.ERROR, { message: "Bet not found" });
+            return;
+        }
+
+        // Quotes are polled, so a bet that just settled gets an empty quote rather than an error
+        const pending = bet.status === "pending";
+        const quote: BetQuote = {
+            betId: bet.id,
+            cancelRefund: pending ? this.getCancelRefund(bet) : null,
+            cashOutValue: pending ? this.getCashOutValue(bet) : null,
+        };
+        client.send(MessageType.BET_QUOTE, quote);
+    }
+
+    handleCancelBet(client: Client, data: BetActionPayload) {
+        const found = this.findPendingBet(client, data?.betId);
+        if (!found) return;
+
+        const refund = this.getCancelRefund(found.bet);
+        if (refund === null) {
+            client.send(MessageType.ERROR, { message: "Betting for this cell is locked, the bet can no longer be cancelled" });
+            return;
+        }
+
+        this.closeBetEarly(client, found.player, found.bet, "cancelled", refund);
+        console.log(`Bet ${found.bet.id} CANCELLED. Refund: ${refund}`);
+    }
+
+    handleCashOut(client: Client, data: CashOutPayload) {
+        if (this.rejectIfHalted(client)) return;
+        const found = this.findPendingBet(client, data?.betId);
+        if (!found) return;
+
+        const value = this.getCashOutValue(found.bet);
+        if (value === null) {
+            client.send(MessageType.ERROR, { message: "The bet can no longer be cashed out" });
+            return;
+        }
+
+        // Same confirmation rule as odds on placement: never pay out less than the player agreed to
+        if (data.value !== undefined && value < Number(data.value)) {
+            client.send(MessageType.ERROR, { message: `Cash-out value changed to ${value}, please confirm again` });
+            return;
+        }
+
+        this.closeBetEarly(client, found.player, found.bet, "cashed_out", value);
+        console.log(`Bet ${found.bet.id} CASHED OUT. Payout: ${value}`);
+    }
+
+    /**
+     * Current house liability, for the admin API (via matchMaker.remoteRoomCall)
+     */
+    getExposure() {
+        return {
+            roomId: this.roomId,
+            symbol: this.options.symbol,
+            settlementRule: this.options.settlementRule,
+            ...this.risk.getExposure(),
+        };
+    }
+
+    /**
+     * Close the room for the admin API (via matchMaker.remoteRoomCall): stop taking bets and joins,
+     * then dispose it once open bets have settled ('settle') or after refunding them ('refund')
+     */
+    shutdown(mode: ShutdownMode) {
+        const openBets = this.countOpenBets();
+        this.closing = mode;
+        this.lock();
+        this.setMetadata({ closing: mode });
+        this.broadcast(MessageType.ERROR, { message: "This room is closing; new bets are no longer accepted" });
+        console.log(`MarketRoom ${this.roomId} closing (${mode}), ${openBets} open bets`);
+
+        if (mode === 'refund') {
+            this.refundOpenBets();
+        }
+        this.disconnectIfSettled();
+
+        return { roomId: this.roomId, mode, openBets };
+    }
+
+    /**
+     * Require a token issued by the /auth endpoints; the verified user becomes `client.auth`
+     */
+    onAuth(client: Client, options: any, context: AuthContext): AuthUser {
+        const user = verifyToken(context.token);
+        if (!user) {
+            throw new ServerError(401, "Invalid or expired token");
+        }
+        return user;
+    }
+
+    async onJoin(client: Client, options: any) {
+        const { userId, name } = client.auth as AuthUser;
+        console.log("Client joined:", client.sessionId, "User:", userId);
+        if (this.leaderboards) {
+            client.send(MessageType.LEADERBOARD, this.leaderboards);
+        }
+        client.send(MessageType.MARKET_STATUS, this.getMarketStatus());
+
+        // Wait for another join of the same user that is still loading the account
+        await this.pendingJoins.get(userId)?.catch(() => undefined);
+
+        // The user may still be in the room (offline with pending bets, or open in another tab): take it over
+        const existingPlayer = this.state.players.get(userId);
         if (existingPlayer) {
+            this.clientFor(userId, client)?.leave(4000);
             existingPlayer.connected = true;
-            // Send initial history
+            console.log(`User ${userId} resumed in session ${client.sessionId}`);
+            this.attachView(client, existingPlayer);
             client.send(MessageType.HISTORY, this.market.getHistory());
             return;
         }
 
-        // Create player state
-        const player = new Player();
-        player.id = client.sessionId;
-        player.balance = 10000; // Initial balance
-        player.connected = true;
-        this.state.players.set(client.sessionId, player);
+        const loading = this.loadPlayer(userId, name);
+        this.pendingJoins.set(userId, loading);
+        let player: Player;
+        try {
+            player = await loading;
+        } finally {
+            this.pendingJoins.delete(userId);
+        }
+        this.attachView(client, player);
 
         // Send initial history
         client.send(MessageType.HISTORY, this.market.getHistory());
     }
 
     async onLeave(client: Client, code: number) {
-        console.log("Client left:", client.sessionId, "Code:", code);
+        const userId = (client.auth as AuthUser)?.userId;
+        console.log("Client left:", client.sessionId, "User:", userId, "Code:", code);
         const consented = code === 1000;
+
+        // Replaced by a newer connection of the same user
+        if (this.clientFor(userId, client)) {
+            this.timeframes.delete(client.sessionId);
+            this.viewports.delete(client.sessionId);
+            return;
+        }
         
-        const player = this.state.players.get(client.sessionId);
+        const player = this.state.players.get(userId);
         if (player) {
              player.connected = false;
         }
 
         try {
-            if (consented) {
+            if (consented || !player) {
                 throw new Error("consented leave");
             }
 
             // Allow reconnection for 60 seconds
+            this.reconnecting.add(userId);
             const newClient = await this.allowReconnection(client, 60);
+            this.reconnecting.delete(userId);
 
-            // Client returned!
-            if (player) {
-                player.connected = true;
-                console.log("Client reconnected. Old SID:", client.sessionId, "New SID:", newClient.sessionId);
-
-                // Handle session ID change: Update player mapping in state
-                if (newClient.sessionId !== client.sessionId) {
-                    this.state.players.delete(client.sessionId);
-                    this.state.players.set(newClient.sessionId, player);
-                    player.id = newClient.sessionId;
-                    console.log("Migrated player to new sessionId:", newClient.sessionId);
-                }
+            // Client returned! Players are keyed by user id, so a new sessionId needs no migration
+            player.connected = true;
+            if (!newClient.view) {
+                this.attachView(newClient, player);
             }
+            console.log("Client reconnected. Old SID:", client.sessionId, "New SID:", newClient.sessionId);
         } catch (e) {
+            this.reconnecting.delete(userId);
+            this.timeframes.delete(client.sessionId);
+            this.viewports.delete(client.sessionId);
             // timeout or consented leave
-            if (player) {
-                this.state.players.delete(client.sessionId);
-                console.log("Player removed after timeout/leave:", client.sessionId);
+            // Players with pending bets stay (disconnected) so their bets keep settling
+            if (player && !player.connected && this.state.players.get(userId) === player && !this.hasPendingBets(player)) {
+                this.removePlayer(player);
+                console.log("Player removed after timeout/leave:", userId);
             }
         }
     }
 
     update(deltaTime: number) {
+        // Expired quotes can no longer be accepted
+        const wallClock = Date.now();
+        this.quotes.forEach((entry, id) => {
+            if (entry.quote.expiresAt < wallClock) {
+                this.quotes.delete(id);
+            }
+        });
+
+        if (this.leaderboardDirty && wallClock - this.lastLeaderboardTime >= LEADERBOARD_INTERVAL * 1000) {
+            this.refreshLeaderboards();
+        }
+
         if (!this.initialized) return;
 
-        const candle = this.market.tick();
-        
-        // Broadcast new candle
-        this.broadcast(MessageType.PRICE, candle);
+        // Every second closed since the last tick: none when the timer fired early, several when it was late
+        const candles = this.market.tick();
+        if (candles.length === 0) return;
+        const candle = candles[candles.length - 1];
+        const now = candle.time;
+        this.checkFeed(now);
+
+        candles.forEach(closed => {
+            // Flat candles carried over a halt are not market data
+            if (!this.halt) {
+                priceHistory.appendCandle(this.historyKey, closed);
+                // Gap seconds repeat the last close: their zero returns would drag the volatility down
+                if (!closed.gap) {
+                    this.volatility.update(closed);
+                }
+            }
+            // Broadcast new candle
+            this.broadcast(MessageType.PRICE, closed);
+        });
+        this.timeframes.forEach((timeframe, sessionId) => {
+            const client = this.clients.getById(sessionId);
+            const latest = this.market.getLatest(timeframe);
+            if (client && latest) {
+                client.send(MessageType.CANDLE, { timeframe, candle: latest });
+            }
+        });
         this.state.currentPrice = candle.close;
+        this.state.volatility = this.volatility.getVolatility();
 
-        const now = candle.time;
         const minFuture = now + (this.options.predictionInitialColumns - 1) * this.options.predictionGenerationInterval;
-        if (this.lastGenerationTime < minFuture) {
+        if (!this.closing && !this.halt && this.lastGenerationTime < minFuture) {
             const nextStartTime = this.lastGenerationTime + this.options.predictionGenerationInterval;
             this.generatePredictionCells(candle.close, nextStartTime);
             this.lastGenerationTime = nextStartTime;
-        }
 
-        const cellsToRemove: string[] = [];
-
-        // Check Bets
-        this.state.players.forEach((player) => {
-            const settledBets: any[] = [];
-
-            player.bets.forEach((bet: Bet, key: string) => {
-                if (bet.status === "pending") {
-                    // 4. Settlement: Check at time point
-                    if (now >= bet.startTime) {
-                        // Check if market price is in prediction cell range
-                        // Use [Low, High) for inclusive low, exclusive high to prevent double wins on boundary
-                        const won = candle.close >= bet.lowPrice && candle.close < bet.highPrice;
-                        
-                        if (won) {
-                            bet.status = "won";
-                            bet.payout = bet.amount * bet.odds;
-                            console.log(`Bet ${bet.id} WON! Payout: ${bet.payout}`);
-                            
-                            player.balance += bet.payout;
-                        } else {
-                            bet.status = "lost";
-                            bet.payout = 0;
-                            console.log(`Bet ${bet.id} LOST`);
-                        }
-
-                        settledBets.push(bet.toJSON());
-                    }
-                }
+            // Clients that have not reported a viewport follow the price; move their area once per column
+            this.clients.forEach(client => {
+                if (!this.viewports.has(client.sessionId)) this.updateView(client);
             });
 
-            if (settledBets.length > 0) {
-                const client = this.clients.find(c => c.sessionId === player.id);
-                if (client) {
-                    client.send(MessageType.BET_RESULT, { 
-                        bets: settledBets,
-                        balance: player.balance,
-                    });
-                }
+            // Refresh the listed volatility estimate once per generated column
+            this.setMetadata({ realizedVolatility: this.state.volatility });
+        }
+
+        if (!this.closing && !this.halt) {
+            this.extendPredictionCells(candle.close, now);
+        }
+
+        // Re-price the open cells clients can see
+        if (!this.halt && now - this.lastRepriceTime >= this.options.predictionRepriceInterval) {
+            this.repricePredictionCells(now);
+            this.lastRepriceTime = now;
+        }
+
+        // Settle what is due; entries of bets closed early (cancel / cash out) are skipped
+        const results = new Map<Player, { bets: BetData[]; combos: ComboBetData[] }>();
+        const resultsFor = (player: Player) => {
+            let result = results.get(player);
+            if (!result) {
+                result = { bets: [], combos: [] };
+                results.set(player, result);
             }
+            return result;
+        };
+
+        // Windows are only decided once a price has arrived for their last second; if the feed has stalled,
+        // they wait until it recovers or the halt starts (and they are refunded)
+        const settleUpTo = this.halt ? now : Math.min(now, this.lastFeedTime);
+
+        this.dueBets.popDue(settleUpTo).forEach(({ userId, betId }) => {
+            const player = this.state.players.get(userId);
+            const bet = player?.bets.get(betId);
+            if (!player || !bet || bet.status !== "pending") return;
+
+            this.settleBet(player, bet, candle.close);
+            resultsFor(player).bets.push(bet.toJSON());
         });
 
-        // Cleanup expired Prediction Cells (only those without any bets)
-        this.state.predictionCells.forEach((cell: PredictionCell, key: string) => {
-            let hasBet = false;
-            this.state.players.forEach((player) => {
-                player.bets.forEach((bet: Bet) => {
-                    if (bet.cellId === cell.id) {
-                        hasBet = true;
-                    }
+        this.dueCombos.popDue(settleUpTo).forEach(({ userId, comboId }) => {
+            const player = this.state.players.get(userId);
+            const combo = player?.combos.get(comboId);
+            if (!player || !combo || combo.status !== "pending") return;
+
+            if (this.settleCombo(player, combo, settleUpTo)) {
+                resultsFor(player).combos.push(combo.toJSON());
+            } else {
+                this.trackCombo(player, combo, false);
+            }
+        });
+
+        results.forEach((result, player) => {
+            const client = this.clientFor(player.id);
+            if (client) {
+                client.send(MessageType.BET_RESULT, { 
+                    bets: result.bets,
+                    combos: result.combos,
+                    balance: player.balance,
                 });
+            }
+
+            // Drop players who left while their bets were still pending, now that those have settled
+            if (!player.connected && !this.reconnecting.has(player.id) && !this.hasPendingBets(player)) {
+                this.removePlayer(player);
+            }
+        });
+
+        // Cleanup expired Prediction Cells (only those without any bets or combo legs; see removePlayer)
+        this.expiringCells.popDue(now).forEach(cellId => {
+            if (!this.cellBets.has(cellId)) {
+                this.state.predictionCells.delete(cellId);
+            }
+        });
+
+        // Offer the new cells to every client's view (removed cells leave the views by themselves)
+        if (this.newCells.length > 0) {
+            this.clients.forEach(client => this.addToView(client, this.newCells));
+            this.newCells = [];
+        }
+
+        if (this.closing) {
+            this.disconnectIfSettled();
+        }
+    }
+
+    /**
+     * Debit the stake, record the bet and its liability
+     */
+    private openBet(player: Player, cell: RiskCell & PriceBox, amount: number, odds: number, custom: boolean): Bet {
+        const bet = new Bet();
+        bet.id = crypto.randomUUID();
+        bet.cellId = cell.id;
+        bet.startTime = cell.startTime;
+        bet.endTime = cell.endTime;
+        bet.highPrice = cell.highPrice;
+        bet.lowPrice = cell.lowPrice;
+        bet.amount = amount;
+        bet.odds = odds;
+        bet.status = "pending";
+        bet.ownerId = player.id;
+        bet.custom = custom;
+        bet.entryPrice = this.market.getCurrentPrice();
+
+        this.recordBalanceChange(player, "bet_debit", amount, bet);
+        console.log(`Player ${player.id} balance deducted by ${amount}. New balance: ${player.balance}`);
+
+        player.bets.set(bet.id, bet);
+        this.persistBet(player, bet);
+        console.log(`New bet placed: ${bet.id} by ${player.id} Amount: ${amount} Odds: ${odds}`);
+
+        this.risk.addBet(cell, amount, odds);
+        this.trackBet(player, bet);
+        return bet;
+    }
+
+    /**
+     * Decide a bet whose window has closed, by the room's settlement rule over the candles inside it
+     */
+    private settleBet(player: Player, bet: Bet, lastPrice: number) {
+        const path = this.market.getPublishedCandles(bet.startTime, bet.endTime);
+        const won = isWinningPath(this.options.settlementRule, path, bet.lowPrice, bet.highPrice);
+        const settlementPrice = path.length > 0 ? path[path.length - 1].close : lastPrice;
+
+        const voidReason = this.getVoidReason(bet, path);
+        if (voidReason) {
+            bet.status = "refunded";
+            bet.payout = bet.amount;
+            console.log(`Bet ${bet.id} REFUNDED (${voidReason})`);
+
+            this.recordBalanceChange(player, "refund_credit", bet.payout, bet, settlementPrice);
+        } else if (won) {
+            bet.status = "won";
+            bet.payout = bet.amount * bet.odds;
+            console.log(`Bet ${bet.id} WON! Payout: ${bet.payout}`);
+            
+            this.recordBalanceChange(player, "payout_credit", bet.payout, bet, settlementPrice);
+        } else {
+            bet.status = "lost";
+            bet.payout = 0;
+            console.log(`Bet ${bet.id} LOST`);
+
+            this.recordBalanceChange(player, "bet_lost", 0, bet, settlementPrice);
+        }
+
+        this.risk.releaseBet(bet.cellId, bet.amount, bet.odds);
+        this.persistBet(player, bet);
+    }
+
+    /**
+     * Index a bet added to a player: its cell is kept while referenced, and a pending bet is queued for settlement
+     */
+    private trackBet(player: Player, bet: Bet) {
+        this.cellBets.add(bet.cellId);
+        if (bet.status === "pending") {
+            this.dueBets.push(bet.endTime, { userId: player.id, betId: bet.id });
+        }
+    }
+
+    /**
+     * Queue a pending combo for the end of its next unsettled leg (and, when added, reference its legs' cells)
+     */
+    private trackCombo(player: Player, combo: ComboBet, addCellRefs: boolean = true) {
+        if (addCellRefs) {
+            combo.legs.forEach(leg => this.cellBets.add(leg.cellId));
+        }
+        const nextLeg = combo.legs.find(leg => leg.status === "pending");
+        if (combo.status === "pending" && nextLeg) {
+            this.dueCombos.push(nextLeg.endTime, { userId: player.id, comboId: combo.id });
+        }
+    }
+
+    /**
+     * Remove a player from the room; expired cells only its bets were holding on to go with it
+     */
+    private removePlayer(player: Player) {
+        this.state.players.delete(player.id);
+
+        const now = this.market.getCurrentTime();
+        const release = (cellId: string) => {
+            if (!this.cellBets.release(cellId)) return;
+            const cell = this.state.predictionCells.get(cellId);
+            if (cell && now > cell.endTime) {
+                this.state.predictionCells.delete(cellId);
+            }
+        };
+        player.bets.forEach((bet: Bet) => release(bet.cellId));
+        player.combos.forEach((combo: ComboBet) => combo.legs.forEach(leg => release(leg.cellId)));
+    }
+
+    /**
+     * Validate a custom box against the lock window, horizon and size limits
+     */
+    private checkCustomBox(box: PriceBox): string | null {
+        const { startTime, endTime, lowPrice, highPrice } = box;
+        if (![startTime, endTime, lowPrice, highPrice].every(Number.isFinite) || lowPrice < 0) {
+            return "Invalid box";
+        }
+
+        const limits = this.customBox;
+        const now = this.market.getCurrentTime();
+        if (startTime <= now + this.options.predictionBetLockWindow) {
+            return "Box must start after the bet lock window";
+        }
+        if (startTime > now + limits.maxHorizon) {
+            return `Box must start within ${limits.maxHorizon}s`;
+        }
+
+        const duration = endTime - startTime;
+        if (duration < limits.minDuration || duration > limits.maxDuration) {
+            return `Box duration must be between ${limits.minDuration}s and ${limits.maxDuration}s`;
+        }
+
+        const height = highPrice - lowPrice;
+        if (height < limits.minHeight || height > limits.maxHeight) {
+            return `Box height must be between ${limits.minHeight} and ${limits.maxHeight}`;
+        }
+        return null;
+    }
+
+    private findPendingBet(client: Client, betId: string): { player: Player; bet: Bet } | null {
+        const player = this.state.players.get((client.auth as AuthUser).userId);
+        const bet = player?.bets.get(betId);
+        if (!player || !bet) {
+            client.send(MessageType.ERROR, { message: "Bet not found" });
+            return null;
+        }
+        if (bet.status !== "pending") {
+            client.send(MessageType.ERROR, { message: "Bet is already settled" });
+            return null;
+        }
+        return { player, bet };
+    }
+
+    /**
+     * Stake minus the cancellation fee, or null once the cell is inside the bet lock window
+     */
+    private getCancelRefund(bet: Bet): number | null {
+        const now = this.market.getCurrentTime();
+        if (bet.startTime <= now + this.options.predictionBetLockWindow) {
+            return null;
+        }
+        return Math.floor(bet.amount * (1 - this.options.cancelFee) * 100) / 100;
+    }
+
+    /**
+     * Model fair value of the bet (payout x current win probability) minus the cash-out margin,
+     * or null once the window has ended
+     */
+    private getCashOutValue(bet: Bet): number | null {
+        const now = this.market.getCurrentTime();
+        // No fair value while the feed is halted: the current price is in doubt
+        if (this.halt || now >= bet.endTime) {
+            return null;
+        }
+        const probability = this.getWinProbability(bet, now);
+        return Math.floor(bet.amount * bet.odds * probability * (1 - this.options.cashOutMargin) * 100) / 100;
+    }
+
+    /**
+     * Probability that a pending bet wins, given the current price, the time remaining
+     * and (once its window has opened) the path observed so far
+     */
+    private getWinProbability(bet: Bet, now: number): number {
+        const rule = this.options.settlementRule;
+        const currentPrice = this.market.getCurrentPrice();
+        const sigma = this.volatility.getAbsoluteSigma(currentPrice);
+        const T2 = Math.max(0, bet.endTime - now) / 31536000;
+
+        if (now < bet.startTime) {
+            const T1 = (bet.startTime - now) / 31536000;
+            return BlackScholes.calculateRuleProbability(rule, currentPrice, bet.lowPrice, bet.highPrice, T1, T2, sigma);
+        }
+
+        const path = this.market.getPublishedCandles(bet.startTime, now);
+        const touched = isWinningPath("touch", path, bet.lowPrice, bet.highPrice);
+        if (rule === "touch" && touched) return 1;
+        if (rule === "avoid" && touched) return 0;
+        if (rule === "stay" && path.length > 0 && !isWinningPath("stay", path, bet.lowPrice, bet.highPrice)) return 0;
+
+        return BlackScholes.calculateRuleProbability(rule, currentPrice, bet.lowPrice, bet.highPrice, 0, T2, sigma);
+    }
+
+    /**
+     * Settle a bet before its window ends (cancellation or cash-out) and release its liability
+     */
+    private closeBetEarly(client: Client, player: Player, bet: Bet, status: BetStatus, payout: number) {
+        bet.status = status;
+        bet.payout = payout;
+        this.recordBalanceChange(player, status === "cancelled" ? "cancel_refund" : "cash_out_credit", payout, bet, this.market.getCurrentPrice());
+
+        this.risk.releaseBet(bet.cellId, bet.amount, bet.odds);
+        const cell = this.state.predictionCells.get(bet.cellId);
+        if (cell) {
+            this.priceCell(cell);
+        }
+        this.persistBet(player, bet);
+
+        client.send(MessageType.BET_RESULT, {
+            bets: [bet.toJSON()],
+            balance: player.balance,
+        });
+    }
+
+    /**
+     * The connected client of a user, if any (optionally ignoring one connection)
+     */
+    private clientFor(userId: string, except?: Client): Client | undefined {
+        return this.clients.find(c => c !== except && (c.auth as AuthUser)?.userId === userId);
+    }
+
+    private hasPendingBets(player: Player): boolean {
+        let pending = false;
+        player.bets.forEach((bet: Bet) => {
+            if (bet.status === "pending") pending = true;
+        });
+        player.combos.forEach((combo: ComboBet) => {
+            if (combo.status === "pending") pending = true;
+        });
+        return pending;
+    }
+
+    /**
+     * Give a client its own state view: its player (with bets and combos) and the cells around its viewport
+     */
+    private attachView(client: Client, player: Player) {
+        client.view = new StateView();
+        client.view.add(player);
+        this.updateView(client);
+    }
+
+    /**
+     * Add the cells inside the client's interest area to its view and drop the ones that left it
+     */
+    private updateView(client: Client) {
+        const view = client.view;
+        if (!view) return;
+
+        const area = this.getInterestArea(client.sessionId);
+        this.state.predictionCells.forEach((cell: PredictionCell) => {
+            const inside = isInArea(cell, area);
+            if (inside && !view.has(cell)) {
+                this.quoteCell(cell);
+                view.add(cell);
+            } else if (!inside && view.has(cell)) {
+                view.remove(cell);
+            }
+        });
+    }
+
+    /**
+     * Add just-created cells that fall inside the client's interest area to its view
+     */
+    private addToView(client: Client, cells: PredictionCell[]) {
+        const view = client.view;
+        if (!view) return;
+
+        const area = this.getInterestArea(client.sessionId);
+        cells.forEach(cell => {
+            if (isInArea(cell, area) && this.state.predictionCells.get(cell.id) === cell) {
+                view.add(cell);
+            }
+        });
+    }
+
+    /**
+     * The client's viewport widened by VIEWPORT_MARGIN on every side; until a client reports one,
+     * the columns ahead of now within the displayed layers around the current price
+     */
+    private getInterestArea(sessionId: string): ViewportPayload {
+        const viewport = this.viewports.get(sessionId);
+        if (viewport) {
+            const width = (viewport.toTime - viewport.fromTime) * VIEWPORT_MARGIN;
+            const height = (viewport.highPrice - viewport.lowPrice) * VIEWPORT_MARGIN;
+            return {
+                fromTime: viewport.fromTime - width,
+                toTime: viewport.toTime + width,
+                lowPrice: viewport.lowPrice - height,
+                highPrice: viewport.highPrice + height,
+            };
+        }
+
+        const now = this.market.getCurrentTime();
+        const price = this.market.getCurrentPrice();
+        const halfHeight = this.options.predictionLayers * this.options.predictionPriceHeight;
+        return {
+            fromTime: now - this.options.predictionDuration,
+            toTime: Infinity,
+            lowPrice: price - halfHeight,
+            highPrice: price + halfHeight,
+        };
+    }
+
+    private rejectIfNotTrading(client: Client): boolean {
+        if (this.closing) {
+            client.send(MessageType.ERROR, { message: "This room is closing; new bets are no longer accepted" });
+            return true;
+        }
+        return this.rejectIfHalted(client);
+    }
+
+    private rejectIfHalted(client: Client): boolean {
+        if (!this.halt) return false;
+        client.send(MessageType.ERROR, { message: `Market halted: ${this.halt.reason}` });
+        return true;
+    }
+
+    private getMarketStatus(): MarketStatusPayload {
+        return this.halt ? { halted: true, reason: this.halt.reason, since: this.halt.since } : { halted: false };
+    }
+
+    /**
+     * Circuit breaker: halt betting while the feed is stale or its confidence interval too wide,
+     * and resume once it has been healthy for resumeAfter seconds
+     */
+    private checkFeed(now: number) {
+        const { staleAfter, maxConfRatio, resumeAfter } = this.feedGuard;
+        const silence = now - this.lastFeedTime;
+        const problem = silence >= staleAfter
+            ? `no price update for ${silence}s`
+            : this.lastConfRatio > maxConfRatio
+            ? `price confidence interval is ${(this.lastConfRatio * 100).toFixed(2)}% of the price`
+            : null;
+
+        if (problem) {
+            this.healthySince = null;
+            if (!this.halt) {
+                // A stale feed is only noticed after staleAfter seconds: the outage starts after the last update
+                this.haltMarket(problem, silence >= staleAfter ? this.lastFeedTime + 1 : now);
+            }
+            return;
+        }
+
+        if (!this.halt) return;
+        if (this.healthySince === null) {
+            this.healthySince = now;
+        }
+        if (now - this.healthySince >= resumeAfter) {
+            this.resumeMarket(now);
+        }
+    }
+
+    private haltMarket(reason: string, since: number) {
+        this.halt = { reason, since };
+        this.outages = this.outages.filter(outage => outage.to >= since - OUTAGE_RETENTION);
+        this.outages.push({ from: since, to: Infinity });
+        // Outstanding quotes were priced on the prices that are now in doubt
+        this.quotes.clear();
+
+        console.warn(`MarketRoom ${this.roomId} halted: ${reason}`);
+        this.setMetadata({ halted: true });
+        this.broadcast(MessageType.MARKET_STATUS, this.getMarketStatus());
+    }
+
+    private resumeMarket(now: number) {
+        this.outages[this.outages.length - 1].to = now;
+        console.log(`MarketRoom ${this.roomId} resumed after a halt of ${now - this.halt!.since}s`);
+        this.halt = null;
+        this.healthySince = null;
+
+        // Columns were not generated while halted: continue from the current time, on the same grid
+        const interval = this.options.predictionGenerationInterval;
+        const missed = Math.floor((now - this.lastGenerationTime) / interval);
+        if (missed > 0) {
+            this.lastGenerationTime += missed * interval;
+        }
+
+        this.setMetadata({ halted: false });
+        this.broadcast(MessageType.MARKET_STATUS, this.getMarketStatus());
+    }
+
+    /**
+     * Why a settlement window cannot be decided on its prices (its bets are refunded), or null.
+     * `path` holds the window's candles built from prices published inside it.
+     */
+    private getVoidReason(window: { startTime: number; endTime: number }, path: Candle[]): string | null {
+        if (window.startTime < this.observedSince) {
+            // Part of the window passed before this room saw real prices (e.g. restart)
+            return "window not fully observed";
+        }
+        if (this.outages.some(outage => outage.from <= window.endTime && outage.to >= window.startTime)) {
+            return "price feed outage during the window";
+        }
+        if (path.length === 0) {
+            return "no price published during the window";
+        }
+        return null;
+    }
+
+    private countOpenBets(): number {
+        let count = 0;
+        this.state.players.forEach(player => {
+            player.bets.forEach((bet: Bet) => {
+                if (bet.status === "pending") count++;
+            });
+            player.combos.forEach((combo: ComboBet) => {
+                if (combo.status === "pending") count++;
+            });
+        });
+        return count;
+    }
+
+    /**
+     * Refund the stake of every open bet and combo (room shutdown)
+     */
+    private refundOpenBets() {
+        const price = this.market.getCurrentPrice();
+        this.state.players.forEach(player => {
+            const refundedBets: BetData[] = [];
+            player.bets.forEach((bet: Bet) => {
+                if (bet.status !== "pending") return;
+                bet.status = "refunded";
+                bet.payout = bet.amount;
+                this.recordBalanceChange(player, "refund_credit", bet.payout, bet, price);
+                this.risk.releaseBet(bet.cellId, bet.amount, bet.odds);
+                this.persistBet(player, bet);
+                refundedBets.push(bet.toJSON());
+            });
+
+            const refundedCombos: ComboBetData[] = [];
+            player.combos.forEach((combo: ComboBet) => {
+                if (combo.status !== "pending") return;
+                this.finishCombo(player, combo, "refunded", combo.amount, "refund_credit", price);
+                refundedCombos.push(combo.toJSON());
             });
-            if (!hasBet && now > cell.endTime) {
-                cellsToRemove.push(key);
+
+            const client = this.clientFor(player.id);
+            if (client && (refundedBets.length > 0 || refundedCombos.length > 0)) {
+                client.send(MessageType.BET_RESULT, { bets: refundedBets, combos: refundedCombos, balance: player.balance });
             }
         });
+    }
+
+    private disconnectIfSettled() {
+        if (this.disconnecting || this.countOpenBets() > 0) return;
+        this.disconnecting = true;
+        console.log(`MarketRoom ${this.roomId} has no open bets left, disposing`);
+        this.disconnect().catch(err => console.error(`Failed to dispose room ${this.roomId}:`, err));
+    }
+
+    private checkStake(amount: number): string | null {
+        if (!Number.isFinite(amount) || amount < this.options.minBet) {
+            return `Minimum bet amount is ${this.options.minBet}`;
+        }
+        if (amount > this.options.maxBet) {
+            return `Maximum bet amount is ${this.options.maxBet}`;
+        }
+        return null;
+    }
+
+    private getComboOdds(legs: PredictionCell[]): number {
+        const product = legs.reduce((odds, cell) => odds * cell.odds, 1);
+        return Math.max(1.01, Math.floor(product * (1 - this.options.comboMargin) * 100) / 100);
+    }
+
+    /**
+     * Settle a combo leg by leg, in time order. The first losing leg loses the whole combo
+     * (remaining legs are voided); the combo wins once every leg has won.
+     * Returns true when the combo reached a final status.
+     */
+    private settleCombo(player: Player, combo: ComboBet, now: number): boolean {
+        let changed = false;
+
+        for (const leg of combo.legs) {
+            if (leg.status !== "pending") continue;
+            // Legs are in time order: nothing after an unfinished leg can be settled yet
+            if (now < leg.endTime) break;
+
+            const path = this.market.getPublishedCandles(leg.startTime, leg.endTime);
+            const settlementPrice = path.length > 0 ? path[path.length - 1].close : this.market.getCurrentPrice();
+
+            const voidReason = this.getVoidReason(leg, path);
+            if (voidReason) {
+                // One leg cannot be decided: refund the whole combo
+                this.finishCombo(player, combo, "refunded", combo.amount, "refund_credit", settlementPrice);
+                console.log(`Combo ${combo.id} REFUNDED (${voidReason})`);
+                return true;
+            }
+
+            if (!isWinningPath(this.options.settlementRule, path, leg.lowPrice, leg.highPrice)) {
+                leg.status = "lost";
+                this.finishCombo(player, combo, "lost", 0, "bet_lost", settlementPrice);
+                console.log(`Combo ${combo.id} LOST on leg ${leg.cellId}`);
+                return true;
+            }
+
+            leg.status = "won";
+            changed = true;
+
+            if (combo.legs.every(l => l.status === "won")) {
+                this.finishCombo(player, combo, "won", combo.amount * combo.odds, "payout_credit", settlementPrice);
+                console.log(`Combo ${combo.id} WON! Payout: ${combo.payout}`);
+                return true;
+            }
+        }
+
+        if (changed) {
+            this.persistCombo(player, combo);
+        }
+        return false;
+    }
+
+    private finishCombo(player: Player, combo: ComboBet, status: BetStatus, payout: number, type: LedgerEntryType, settlementPrice: number) {
+        combo.legs.forEach(leg => {
+            if (leg.status === "pending") leg.status = "void";
+        });
+        combo.status = status;
+        combo.payout = payout;
+
+        this.recordBalanceChange(player, type, payout, combo, settlementPrice);
+        this.risk.releaseCombo(combo.amount, combo.odds);
+        this.persistCombo(player, combo);
+    }
+
+    /**
+     * Create player state from the persisted account and add it to the room with its open bets
+     */
+    private async loadPlayer(userId: string, name: string): Promise<Player> {
+        const { account } = await openAccount(userId);
+        const player = new Player();
+        player.id = userId;
+        player.name = name;
+        player.balance = account.balance;
+        player.connected = true;
+
+        await this.restoreOpenBets(userId, player);
+        this.state.players.set(userId, player);
+        return player;
+    }
+
+    /**
+     * Whether a stored bet belongs to another room that is still running
+     */
+    private async isOwnedByLiveRoom(roomId: string): Promise<boolean> {
+        if (roomId === this.roomId) return false;
+        const owner = await matchMaker.query({ roomId });
+        return owner.length > 0;
+    }
+
+    /**
+     * Bring back the user's pending bets on this symbol, unless another live room still owns them
+     */
+    private async restoreOpenBets(userId: string, player: Player) {
+        const openBets = await accountStore.getOpenBets(userId, this.options.symbol);
+
+        for (const stored of openBets) {
+            if (await this.isOwnedByLiveRoom(stored.roomId)) continue;
+
+            const bet = new Bet();
+            bet.id = stored.id;
+            bet.cellId = stored.cellId;
+            bet.startTime = stored.startTime;
+            bet.endTime = stored.endTime;
+            bet.highPrice = stored.highPrice;
+            bet.lowPrice = stored.lowPrice;
+            bet.amount = stored.amount;
+            bet.odds = stored.odds;
+            bet.payout = stored.payout;
+            bet.status = stored.status;
+            bet.ownerId = player.id;
+            bet.custom = !!stored.custom;
+            bet.entryPrice = stored.entryPrice ?? 0;
+
+            player.bets.set(bet.id, bet);
+            this.risk.addBet({ id: bet.cellId, startTime: bet.startTime, lowPrice: bet.lowPrice, highPrice: bet.highPrice, custom: bet.custom }, bet.amount, bet.odds);
+            this.trackBet(player, bet);
+            // This room now owns the bet
+            this.persistBet(player, bet);
+        }
+
+        const openCombos = await accountStore.getOpenCombos(userId, this.options.symbol);
+        for (const stored of openCombos) {
+            if (await this.isOwnedByLiveRoom(stored.roomId)) continue;
+
+            const combo = new ComboBet();
+            combo.id = stored.id;
+            stored.legs.forEach(data => {
+                const leg = new ComboLeg();
+                leg.cellId = data.cellId;
+                leg.startTime = data.startTime;
+                leg.endTime = data.endTime;
+                leg.highPrice = data.highPrice;
+                leg.lowPrice = data.lowPrice;
+                leg.odds = data.odds;
+                leg.status = data.status;
+                combo.legs.push(leg);
+            });
+            combo.amount = stored.amount;
+            combo.odds = stored.odds;
+            combo.payout = stored.payout;
+            combo.status = stored.status;
+            combo.ownerId = player.id;
+
+            player.combos.set(combo.id, combo);
+            this.risk.addCombo(combo.amount, combo.odds);
+            this.trackCombo(player, combo);
+            this.persistCombo(player, combo);
+        }
+    }
+
+    /**
+     * Apply a balance movement to a player and write it through to storage and the ledger.
+     * Debits move money from the player to the house, credits the other way.
+     */
+    private recordBalanceChange(player: Player, type: LedgerEntryType, amount: number, bet: Bet | ComboBet, settlementPrice?: number) {
+        const isDebit = type === "bet_debit";
+        player.balance += isDebit ? -amount : amount;
+        this.persistBalance(player);
+
+        this.appendLedger(player.id, {
+            type,
+            debit: isDebit ? playerAccount(player.id) : HOUSE_ACCOUNT,
+            credit: isDebit ? HOUSE_ACCOUNT : playerAccount(player.id),
+            amount,
+            betId: bet.id,
+            ...(bet instanceof ComboBet
+                ? { legs: bet.legs.map(leg => this.toLedgerCell(leg)) }
+                : { cell: this.toLedgerCell(bet) }),
+            settlementPrice,
+            balanceAfter: player.balance,
+        });
+    }
+
+    private toLedgerCell(source: Bet | ComboLeg): LedgerCell {
+        return {
+            cellId: source.cellId,
+            startTime: source.startTime,
+            endTime: source.endTime,
+            lowPrice: source.lowPrice,
+            highPrice: source.highPrice,
+            odds: source.odds,
+        };
+    }
+
+    private appendLedger(accountId: string, entry: Omit<LedgerEntryInput, "accountId" | "roomId" | "symbol">) {
+        ledger.append({
+            ...entry,
+            accountId,
+            roomId: this.roomId,
+            symbol: this.options.symbol,
+        }).catch(err => {
+            console.error(`Failed to write ledger entry for ${accountId}:`, err);
+        });
+    }
 
-        cellsToRemove.forEach(key => {
-            this.state.predictionCells.delete(key);
+    private persistBalance(player: Player) {
+        accountStore.updateBalance(player.id, player.balance).catch(err => {
+            console.error(`Failed to persist balance for ${player.id}:`, err);
         });
     }
 
-    private generatePredictionCells(currentPrice: number, currentTime: number) {
-        const endTime = currentTime + this.options.predictionDuration;
-        const timeToMaturity = this.options.predictionDuration / 31536000; // in years
+    private sendCandles(client: Client) {
+        const timeframe = this.timeframes.get(client.sessionId) || 1;
+        client.send(MessageType.CANDLES, { timeframe, candles: this.market.getSeries(timeframe) });
+    }
+
+    private refreshLeaderboards() {
+        this.leaderboardDirty = false;
+        this.lastLeaderboardTime = Date.now();
+
+        getRoomLeaderboards(this.roomId, this.sessionStart).then(boards => {
+            this.leaderboards = boards;
+            this.broadcast(MessageType.LEADERBOARD, boards);
+        }).catch(err => {
+            console.error("Failed to compute leaderboards:", err);
+        });
+    }
+
+    private persistBet(player: Player, bet: Bet) {
+        accountStore.saveBet({
+            ...bet.toJSON(),
+            accountId: player.id,
+            symbol: this.options.symbol,
+            roomId: this.roomId,
+            createdAt: Date.now(),
+            ...(bet.status !== "pending" ? { settledAt: Date.now() } : {}),
+        }).catch(err => {
+            console.error(`Failed to persist bet ${bet.id}:`, err);
+        });
+        if (bet.status !== "pending") {
+            this.leaderboardDirty = true;
+        }
+    }
+
+    private persistCombo(player: Player, combo: ComboBet) {
+        accountStore.saveCombo({
+            ...combo.toJSON(),
+            accountId: player.id,
+            symbol: this.options.symbol,
+            roomId: this.roomId,
+            createdAt: Date.now(),
+            ...(combo.status !== "pending" ? { settledAt: Date.now() } : {}),
+        }).catch(err => {
+            console.error(`Failed to persist combo ${combo.id}:`, err);
+        });
+        if (combo.status !== "pending") {
+            this.leaderboardDirty = true;
+        }
+    }
+
+    /**
+     * Create the column's missing cells in the price band around the current price.
+     * Layer i spans [i * height, (i + 1) * height); the generated layers of a column stay contiguous.
+     */
+    private generatePredictionCells(currentPrice: number, startTime: number) {
+        const endTime = startTime + this.options.predictionDuration;
         const step = this.options.predictionPriceHeight;
-        const targetMaxExclusive = Math.max(0, currentPrice * 2) + step;
-        const layersNeeded = Math.ceil(targetMaxExclusive / step);
-        const layersCount = Math.max(this.options.predictionLayers, layersNeeded);
+        const halfBand = this.getCellBandHalfWidth(currentPrice, endTime);
+        const column = this.columns.get(startTime);
 
-        for (let i = 0; i < layersCount; i++) {
-            const low = i * step;
-            const high = low + step;
-            this.createPredictionCell(low, high, currentTime, endTime, timeToMaturity);
+        const minLayer = Math.min(column?.minLayer ?? Infinity, Math.max(0, Math.floor((currentPrice - halfBand) / step)));
+        const maxLayer = Math.max(column?.maxLayer ?? -Infinity, Math.ceil((currentPrice + halfBand) / step));
+        if (column && column.minLayer === minLayer && column.maxLayer === maxLayer) return;
+
+        for (let layer = minLayer; layer < maxLayer; layer++) {
+            if (column && layer >= column.minLayer && layer < column.maxLayer) continue;
+            this.createPredictionCell(layer, startTime, endTime);
         }
+        this.columns.set(startTime, { minLayer, maxLayer });
     }
 
-    private createPredictionCell(low: number, high: number, startTime: number, endTime: number, T: number) {
-        const currentPrice = this.market.getCurrentPrice();
-        const probability = BlackScholes.calculateProbability(currentPrice, low, high, T);
-        const odds = BlackScholes.calculateOdds(probability);
+    /**
+     * Grow the columns still open for betting as the price drifts towards the edge of their band
+     */
+    private extendPredictionCells(currentPrice: number, now: number) {
+        const lockUntil = now + this.options.predictionBetLockWindow;
+        this.columns.forEach((_, startTime) => {
+            if (startTime > lockUntil) {
+                this.generatePredictionCells(currentPrice, startTime);
+            } else {
+                this.columns.delete(startTime);
+            }
+        });
+    }
+
+    /**
+     * Distance from the current price to either edge of a column's band: a fixed number of layers,
+     * or K standard deviations of the price at the column's end. Never less than the chart shows.
+     */
+    private getCellBandHalfWidth(currentPrice: number, endTime: number): number {
+        const step = this.options.predictionPriceHeight;
+        const visible = this.options.predictionLayers / 2 * step;
+        if (this.cellBand.mode === 'sigma') {
+            const years = Math.max(0, endTime - this.market.getCurrentTime()) / 31536000;
+            const stdDev = this.volatility.getAbsoluteSigma(currentPrice) * Math.sqrt(years);
+            return Math.max(visible, this.cellBand.sigma * stdDev);
+        }
+        return Math.max(visible, this.cellBand.layers * step);
+    }
+
+    /**
+     * Re-price the cells of the open columns that are inside some client's interest area with the
+     * current price and the actual time remaining. Other open cells are priced when they enter a view
+     * or take a bet (see quoteCell). Locked cells keep their last quote; bets keep the odds they were placed at.
+     */
+    private repricePredictionCells(now: number) {
+        const lockUntil = now + this.options.predictionBetLockWindow;
+        const areas = this.clients.map(client => this.getInterestArea(client.sessionId));
+        if (areas.length === 0) return;
+
+        this.columns.forEach(({ minLayer, maxLayer }, startTime) => {
+            if (startTime <= lockUntil) return;
+            for (let layer = minLayer; layer < maxLayer; layer++) {
+                const cell = this.state.predictionCells.get(`${startTime}:${layer}`);
+                if (cell && areas.some(area => isInArea(cell, area))) {
+                    this.priceCell(cell);
+                }
+            }
+        });
+    }
 
+    /**
+     * Bring a cell's quote up to date if it is still open for betting
+     */
+    private quoteCell(cell: PredictionCell) {
+        if (cell.startTime > this.market.getCurrentTime() + this.options.predictionBetLockWindow) {
+            this.priceCell(cell);
+        }
+    }
+
+    private createPredictionCell(layer: number, startTime: number, endTime: number) {
+        const step = this.options.predictionPriceHeight;
         const cell = new PredictionCell();
-        cell.id = Math.random().toString(36).substring(7);
+        // Derived from column and layer, so a slot keeps its id (e.g. across restarts)
+        cell.id = `${startTime}:${layer}`;
         cell.startTime = startTime;
         cell.endTime = endTime;
-        cell.lowPrice = low;
-        cell.highPrice = high;
-        cell.probability = probability;
-        cell.odds = odds;
+        cell.lowPrice = layer * step;
+        cell.highPrice = (layer + 1) * step;
+        this.priceCell(cell);
 
         this.state.predictionCells.set(cell.id, cell);
+        // Cleaned up once its window has passed (if no bet uses it by then)
+        this.expiringCells.push(endTime + 1, cell.id);
+        this.newCells.push(cell);
+    }
+
+    private priceCell(cell: PredictionCell) {
+        const probability = this.getBoxProbability(cell);
+        const odds = this.risk.skewOdds(cell.id, BlackScholes.calculateOdds(probability));
+
+        if (cell.probability !== probability) cell.probability = probability;
+        if (cell.odds !== odds) cell.odds = odds;
+    }
+
+    /**
+     * Model win probability of a box under the room's settlement rule, rounded to 4 decimals
+     */
+    private getBoxProbability(box: PriceBox): number {
+        const currentPrice = this.market.getCurrentPrice();
+        const now = this.market.getCurrentTime();
+        // Time until the window opens / closes, in years
+        const T1 = Math.max(0, box.startTime - now) / 31536000;
+        const T2 = Math.max(0, box.endTime - now) / 31536000;
+        const sigma = this.volatility.getAbsoluteSigma(currentPrice);
+        const rawProbability = BlackScholes.calculateRuleProbability(this.options.settlementRule, currentPrice, box.lowPrice, box.highPrice, T1, T2, sigma);
+        // Round so negligible moves don't resync every cell to clients
+        return Math.round(rawProbability * 10000) / 10000;
     }
 }
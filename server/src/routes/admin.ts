@@ -0,0 +1,141 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchMaker } from 'colyseus';
+import type { MarketRoom, ShutdownMode } from '../rooms/MarketRoom';
+import { marketConfig, buildRoomConfig } from '../config/marketConfig';
+import { validateRoomConfig } from '../config/validateRoomConfig';
+import { ledgerRouter } from './ledger';
+
+/** Colyseus room name every market room is defined under */
+export const MARKET_ROOM = 'market';
+
+/**
+ * Guard admin endpoints with the ADMIN_TOKEN env var (sent as `x-admin-token`).
+ * Without a configured token the admin API is closed, unless ADMIN_INSECURE=1 opens it (local development only).
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) {
+        if (process.env.ADMIN_INSECURE === '1') {
+            next();
+            return;
+        }
+        res.status(503).json({ error: "Admin API disabled: ADMIN_TOKEN is not configured" });
+        return;
+    }
+
+    if (req.header('x-admin-token') !== token) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+    }
+    next();
+}
+
+if (!process.env.ADMIN_TOKEN && process.env.ADMIN_INSECURE === '1') {
+    console.warn("ADMIN_INSECURE=1 and no ADMIN_TOKEN: the admin API is open to anyone");
+}
+
+export const adminRouter = Router();
+adminRouter.use(requireAdmin);
+adminRouter.use('/ledger', ledgerRouter);
+
+// Current house liability of a market room
+adminRouter.get('/rooms/:roomId/exposure', async (req, res) => {
+    try {
+        const rooms = await matchMaker.query({ roomId: req.params.roomId });
+        if (rooms.length === 0) {
+            res.status(404).json({ error: "Room not found" });
+            return;
+        }
+
+        const exposure = await matchMaker.remoteRoomCall<MarketRoom>(req.params.roomId, 'getExposure', []);
+        res.json(exposure);
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Market rooms with their effective config
+adminRouter.get('/rooms', async (req, res) => {
+    try {
+        const rooms = await matchMaker.query({ name: MARKET_ROOM });
+        res.json(rooms.map((r: any) => {
+            const { template, closing, realizedVolatility, historySource, ...config } = r.metadata || {};
+            return {
+                roomId: r.roomId,
+                template,
+                clients: r.clients,
+                locked: r.locked,
+                createdAt: r.createdAt,
+                closing: closing || null,
+                realizedVolatility,
+                historySource,
+                config,
+            };
+        }));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Symbols and room templates rooms can be created from
+adminRouter.get('/templates', (req, res) => {
+    res.json(marketConfig);
+});
+
+// Create a room from a named template
+// Body: { template: string, overrides?: Partial<MarketRoomConfig> }
+adminRouter.post('/rooms', async (req, res) => {
+    const { template, overrides = {} } = req.body || {};
+    if (typeof template !== 'string' || !marketConfig.templates[template]) {
+        res.status(400).json({ error: `Unknown room template: ${template}`, templates: Object.keys(marketConfig.templates) });
+        return;
+    }
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+        res.status(400).json({ error: "overrides must be an object" });
+        return;
+    }
+
+    let config;
+    try {
+        config = buildRoomConfig(marketConfig, template, overrides);
+    } catch (e: any) {
+        res.status(400).json({ error: "Invalid room config", details: [e.message] });
+        return;
+    }
+    const errors = validateRoomConfig(config, Object.keys(marketConfig.symbols));
+    if (errors.length > 0) {
+        res.status(400).json({ error: "Invalid room config", details: errors });
+        return;
+    }
+
+    try {
+        const room = await matchMaker.create(MARKET_ROOM, { ...config, template });
+        console.log(`Admin created room ${room.roomId} from template ${template}`);
+        res.status(201).json({ roomId: room.roomId, template, config });
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Close a room: stop taking bets, then dispose it once open bets are settled (default) or refunded
+// DELETE /admin/rooms/:roomId?openBets=settle|refund
+adminRouter.delete('/rooms/:roomId', async (req, res) => {
+    const mode = (req.query.openBets || 'settle') as ShutdownMode;
+    if (mode !== 'settle' && mode !== 'refund') {
+        res.status(400).json({ error: "openBets must be settle or refund" });
+        return;
+    }
+
+    try {
+        const rooms = await matchMaker.query({ roomId: req.params.roomId });
+        if (rooms.length === 0) {
+            res.status(404).json({ error: "Room not found" });
+            return;
+        }
+
+        const result = await matchMaker.remoteRoomCall<MarketRoom>(req.params.roomId, 'shutdown', [mode]);
+        res.status(202).json(result);
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
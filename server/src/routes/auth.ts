@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { accountStore, openAccount, AccountRecord } from '../storage';
+import { AuthUser, guestName, signToken, verifyToken } from '../utils/token';
+
+const USERNAME_PATTERN = /^[\w-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `${salt}:${hash}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, 64);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function bearerToken(req: Request): string | undefined {
+    const header = req.header('authorization');
+    return header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+}
+
+/**
+ * Guard player endpoints with a bearer token; the verified user is put in `res.locals.user`
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+    const user = verifyToken(bearerToken(req));
+    if (!user) {
+        res.status(401).json({ error: "Invalid or expired token" });
+        return;
+    }
+    res.locals.user = user;
+    next();
+}
+
+function namedUser(account: AccountRecord): AuthUser {
+    return { userId: account.id, name: account.username || account.id, guest: false };
+}
+
+function respond(user: AuthUser) {
+    return { token: signToken(user), user };
+}
+
+/**
+ * Token issuing endpoints. Rooms accept the returned token via `client.auth.token`.
+ */
+export const authRouter = Router();
+
+// Guest account: renews the caller's guest token if one is still valid, otherwise creates a new guest
+authRouter.post('/guest', async (req, res) => {
+    try {
+        const current = verifyToken(bearerToken(req));
+        if (current?.guest) {
+            res.json(respond(current));
+            return;
+        }
+
+        const userId = `guest-${crypto.randomUUID()}`;
+        res.json(respond({ userId, name: guestName(userId), guest: true }));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+authRouter.post('/register', async (req, res) => {
+    try {
+        const { username, password } = req.body || {};
+        if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+            res.status(400).json({ error: "Username must be 3-32 letters, digits, '_' or '-'" });
+            return;
+        }
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+            return;
+        }
+        if (await accountStore.findAccountByUsername(username)) {
+            res.status(409).json({ error: "Username already taken" });
+            return;
+        }
+
+        const { account } = await openAccount(`user-${crypto.randomUUID()}`, {
+            username,
+            passwordHash: hashPassword(password),
+        });
+        res.status(201).json(respond(namedUser(account)));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+authRouter.post('/login', async (req, res) => {
+    try {
+        const { username, password } = req.body || {};
+        const account = typeof username === 'string' ? await accountStore.findAccountByUsername(username) : null;
+        if (!account?.passwordHash || typeof password !== 'string' || !checkPassword(password, account.passwordHash)) {
+            res.status(401).json({ error: "Invalid username or password" });
+            return;
+        }
+        res.json(respond(namedUser(account)));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Identity behind a token
+authRouter.get('/me', requireUser, (req, res) => {
+    res.json({ user: res.locals.user });
+});
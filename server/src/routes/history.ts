@@ -0,0 +1,109 @@
+import { Router, Request } from 'express';
+import { BetHistoryPage, BetStatus } from '@trader-master/shared';
+import { accountStore, SettledQuery, StoredBet, StoredCombo } from '../storage';
+import { AuthUser } from '../utils/token';
+import { buildAnalytics, toHistoryRecord } from '../services/BetAnalytics';
+import { requireUser } from './auth';
+
+/** Statuses a settled bet or combo can end in */
+const SETTLED_STATUSES: BetStatus[] = ['won', 'lost', 'refunded', 'cancelled', 'cashed_out'];
+
+interface HistoryFilters {
+    query: SettledQuery;
+    kind?: 'bet' | 'combo';
+    status?: BetStatus;
+}
+
+/**
+ * Read the query filters: symbol, roomId, from / to (settledAt, unix ms), kind (bet | combo) and status.
+ * Returns an error message when one is invalid
+ */
+function parseFilters(req: Request, user: AuthUser): HistoryFilters | string {
+    const numbers: Partial<Record<'from' | 'to', number>> = {};
+    for (const key of ['from', 'to'] as const) {
+        const value = req.query[key];
+        if (value === undefined) continue;
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (!Number.isFinite(number)) {
+            return `${key} must be a number`;
+        }
+        numbers[key] = number;
+    }
+
+    const { kind, status } = req.query;
+    if (kind !== undefined && kind !== 'bet' && kind !== 'combo') {
+        return 'kind must be bet or combo';
+    }
+    if (status !== undefined && !SETTLED_STATUSES.includes(status as BetStatus)) {
+        return `status must be one of ${SETTLED_STATUSES.join(', ')}`;
+    }
+
+    return {
+        query: {
+            accountId: user.userId,
+            symbol: req.query.symbol as string | undefined,
+            roomId: req.query.roomId as string | undefined,
+            from: numbers.from,
+            to: numbers.to,
+        },
+        kind,
+        status: status as BetStatus | undefined,
+    };
+}
+
+/**
+ * Settled bets and combos of the calling player matching the filters
+ */
+async function loadSettled({ query, kind, status }: HistoryFilters): Promise<(StoredBet | StoredCombo)[]> {
+    const [bets, combos] = await Promise.all([
+        kind === 'combo' ? [] : accountStore.getSettledBets(query),
+        kind === 'bet' ? [] : accountStore.getSettledCombos(query),
+    ]);
+    return [...bets, ...combos].filter(r => !status || r.status === status);
+}
+
+/**
+ * The calling player's own bet history and performance analytics
+ */
+export const historyRouter = Router();
+historyRouter.use(requireUser);
+
+// Paginated settled bets, newest first
+historyRouter.get('/bets', async (req, res) => {
+    try {
+        const filters = parseFilters(req, res.locals.user);
+        if (typeof filters === 'string') {
+            res.status(400).json({ error: filters });
+            return;
+        }
+        const records = await loadSettled(filters);
+        records.sort((a, b) => (b.settledAt || 0) - (a.settledAt || 0));
+
+        const offset = Math.max(0, Number(req.query.offset) || 0);
+        const limit = Math.min(Math.max(1, Number(req.query.limit) || 50), 500);
+        const page: BetHistoryPage = {
+            total: records.length,
+            offset,
+            limit,
+            items: records.slice(offset, offset + limit).map(toHistoryRecord),
+        };
+        res.json(page);
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// PnL curve, win rate by odds / distance buckets and average stake over the filtered bets
+historyRouter.get('/analytics', async (req, res) => {
+    try {
+        const filters = parseFilters(req, res.locals.user);
+        if (typeof filters === 'string') {
+            res.status(400).json({ error: filters });
+            return;
+        }
+        const records = await loadSettled(filters);
+        res.json(buildAnalytics(records));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
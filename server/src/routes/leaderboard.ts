@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { matchMaker } from 'colyseus';
+import { LeaderboardMetric, LeaderboardPeriod, LEADERBOARD_SIZE } from '@trader-master/shared';
+import { getLeaderboard, LEADERBOARD_METRICS, LEADERBOARD_PERIODS, SERVER_STARTED_AT } from '../services/Leaderboard';
+
+/**
+ * Public leaderboards, global or scoped to a room / symbol
+ *
+ * GET /leaderboard?period=session|day|all&metric=pnl|roi|winRate&roomId=&symbol=&limit=
+ * The 'session' period is the room's lifetime when roomId is given, otherwise the server's uptime.
+ */
+export const leaderboardRouter = Router();
+
+leaderboardRouter.get('/', async (req, res) => {
+    try {
+        const period = (req.query.period || 'all') as LeaderboardPeriod;
+        const metric = (req.query.metric || 'pnl') as LeaderboardMetric;
+        if (!LEADERBOARD_PERIODS.includes(period) || !LEADERBOARD_METRICS.includes(metric)) {
+            res.status(400).json({ error: `period must be one of ${LEADERBOARD_PERIODS.join(', ')}; metric one of ${LEADERBOARD_METRICS.join(', ')}` });
+            return;
+        }
+
+        const roomId = req.query.roomId as string | undefined;
+        const symbol = req.query.symbol as string | undefined;
+        const limit = Math.min(Math.max(1, Number(req.query.limit) || LEADERBOARD_SIZE), 100);
+
+        let sessionStart = SERVER_STARTED_AT;
+        if (roomId) {
+            const rooms = await matchMaker.query({ roomId });
+            if (rooms[0]?.createdAt) {
+                sessionStart = new Date(rooms[0].createdAt).getTime();
+            }
+        }
+
+        res.json(await getLeaderboard({ roomId, symbol }, period, metric, sessionStart, limit));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
@@ -0,0 +1,116 @@
+import { Router, Request } from 'express';
+import { accountStore, ledger, reconcileLedger, LedgerEntry, LedgerQuery } from '../storage';
+
+const EXPORT_COLUMNS: (keyof LedgerEntry)[] = [
+    'seq', 'timestamp', 'type', 'accountId', 'roomId', 'symbol', 'betId',
+    'debit', 'credit', 'amount', 'balanceAfter', 'settlementPrice', 'hash',
+];
+
+/**
+ * Read the filter and paging parameters; returns an error message when a numeric one is invalid
+ */
+function parseQuery(req: Request): LedgerQuery | string {
+    const numbers: Partial<Record<'from' | 'to' | 'offset' | 'limit', number>> = {};
+    for (const key of ['from', 'to', 'offset', 'limit'] as const) {
+        const value = req.query[key];
+        if (value === undefined) continue;
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (!Number.isFinite(number)) {
+            return `${key} must be a number`;
+        }
+        if ((key === 'offset' || key === 'limit') && (!Number.isInteger(number) || number < 0)) {
+            return `${key} must be a non-negative integer`;
+        }
+        numbers[key] = number;
+    }
+
+    return {
+        accountId: req.query.accountId as string | undefined,
+        roomId: req.query.roomId as string | undefined,
+        betId: req.query.betId as string | undefined,
+        from: numbers.from,
+        to: numbers.to,
+        offset: numbers.offset ?? 0,
+        limit: Math.min(numbers.limit ?? 100, 1000),
+    };
+}
+
+function toCsv(entries: LedgerEntry[]): string {
+    const escape = (value: unknown) => {
+        const text = value === undefined ? '' : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const cellColumns = ['cellId', 'startTime', 'endTime', 'lowPrice', 'highPrice', 'odds'] as const;
+
+    const header = [...EXPORT_COLUMNS, ...cellColumns].join(',');
+    const rows = entries.map(e => [
+        ...EXPORT_COLUMNS.map(c => escape(e[c])),
+        ...cellColumns.map(c => escape(e.cell?.[c])),
+    ].join(','));
+    return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Bet ledger audit API, mounted under the admin router
+ */
+export const ledgerRouter = Router();
+
+// A player's ledger entries
+ledgerRouter.get('/players/:accountId', async (req, res) => {
+    try {
+        const query = parseQuery(req);
+        if (typeof query === 'string') {
+            res.status(400).json({ error: query });
+            return;
+        }
+        const result = await ledger.query({ ...query, accountId: req.params.accountId });
+        res.json(result);
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// A room's ledger entries
+ledgerRouter.get('/rooms/:roomId', async (req, res) => {
+    try {
+        const query = parseQuery(req);
+        if (typeof query === 'string') {
+            res.status(400).json({ error: query });
+            return;
+        }
+        const result = await ledger.query({ ...query, roomId: req.params.roomId });
+        res.json(result);
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Check the hash chain and that every stored balance equals its ledger total
+ledgerRouter.get('/reconcile', async (req, res) => {
+    try {
+        const accountId = typeof req.query.accountId === 'string' ? req.query.accountId : undefined;
+        res.json(await reconcileLedger(accountStore, ledger, accountId));
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
+
+// Export entries as CSV or JSONL (filters: accountId, roomId, betId, from, to)
+ledgerRouter.get('/export', async (req, res) => {
+    try {
+        const query = parseQuery(req);
+        if (typeof query === 'string') {
+            res.status(400).json({ error: query });
+            return;
+        }
+        const { entries } = await ledger.query({ ...query, offset: 0, limit: undefined });
+        if (req.query.format === 'csv') {
+            res.type('text/csv').attachment('ledger.csv').send(toCsv(entries));
+        } else {
+            res.type('application/x-ndjson').attachment('ledger.jsonl')
+                .send(entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+        }
+    } catch (e: any) {
+        res.status(500).json({ code: e.code, message: e.message });
+    }
+});
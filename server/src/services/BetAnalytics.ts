@@ -0,0 +1,110 @@
+import { AnalyticsBucket, BetAnalytics, BetHistoryRecord } from '@trader-master/shared';
+import { StoredBet, StoredCombo } from '../storage';
+import { betOutcome } from './Leaderboard';
+
+interface BucketSpec {
+    label: string;
+    /** Inclusive lower bound */
+    min: number;
+}
+
+const ODDS_BUCKETS: BucketSpec[] = [
+    { label: '< 1.5', min: 0 },
+    { label: '1.5 - 2', min: 1.5 },
+    { label: '2 - 3', min: 2 },
+    { label: '3 - 5', min: 3 },
+    { label: '5 - 10', min: 5 },
+    { label: '10+', min: 10 },
+];
+
+// Distance of the cell centre from the entry price, in cell heights (0 = the price was inside the cell)
+const DISTANCE_BUCKETS: BucketSpec[] = [
+    { label: 'Inside', min: 0 },
+    { label: '1 cell', min: 0.5 },
+    { label: '2 cells', min: 1.5 },
+    { label: '3-4 cells', min: 2.5 },
+    { label: '5+ cells', min: 4.5 },
+];
+
+export function toHistoryRecord(record: StoredBet | StoredCombo): BetHistoryRecord {
+    return 'legs' in record ? { ...record, kind: 'combo' } : { ...record, kind: 'bet' };
+}
+
+function bucketIndex(specs: BucketSpec[], value: number): number {
+    let index = 0;
+    specs.forEach((spec, i) => {
+        if (value >= spec.min) index = i;
+    });
+    return index;
+}
+
+function emptyBuckets(specs: BucketSpec[]): AnalyticsBucket[] {
+    return specs.map(spec => ({ label: spec.label, bets: 0, wins: 0, winRate: 0, pnl: 0 }));
+}
+
+function addToBucket(bucket: AnalyticsBucket, win: boolean, pnl: number) {
+    bucket.bets++;
+    if (win) bucket.wins++;
+    bucket.pnl += pnl;
+}
+
+function finishBuckets(buckets: AnalyticsBucket[]): AnalyticsBucket[] {
+    return buckets.map(b => ({
+        ...b,
+        winRate: b.bets > 0 ? Math.round(b.wins / b.bets * 10000) / 10000 : 0,
+        pnl: Math.round(b.pnl * 100) / 100,
+    }));
+}
+
+/**
+ * Performance breakdown of a player's settled bets and combos (counted the same way as the leaderboards)
+ */
+export function buildAnalytics(records: (StoredBet | StoredCombo)[]): BetAnalytics {
+    const sorted = [...records].sort((a, b) => (a.settledAt || 0) - (b.settledAt || 0));
+    const byOdds = emptyBuckets(ODDS_BUCKETS);
+    const byDistance = emptyBuckets(DISTANCE_BUCKETS);
+    const pnlCurve: BetAnalytics['pnlCurve'] = [];
+
+    let bets = 0;
+    let wins = 0;
+    let staked = 0;
+    let pnl = 0;
+
+    sorted.forEach(record => {
+        if (record.status === 'refunded') return;
+
+        const recordPnl = (record.payout || 0) - record.amount;
+        pnl += recordPnl;
+        pnlCurve.push({ time: record.settledAt || record.createdAt, pnl: Math.round(pnl * 100) / 100 });
+
+        const outcome = betOutcome(record);
+        if (!outcome) return;
+
+        const win = outcome === 'win';
+        bets++;
+        staked += record.amount;
+        if (win) wins++;
+
+        addToBucket(byOdds[bucketIndex(ODDS_BUCKETS, record.odds)], win, recordPnl);
+
+        if (!('legs' in record) && record.entryPrice) {
+            const height = record.highPrice - record.lowPrice;
+            const distance = height > 0 ? Math.abs((record.highPrice + record.lowPrice) / 2 - record.entryPrice) / height : 0;
+            addToBucket(byDistance[bucketIndex(DISTANCE_BUCKETS, distance)], win, recordPnl);
+        }
+    });
+
+    return {
+        bets,
+        wins,
+        losses: bets - wins,
+        winRate: bets > 0 ? Math.round(wins / bets * 10000) / 10000 : 0,
+        staked: Math.round(staked * 100) / 100,
+        pnl: Math.round(pnl * 100) / 100,
+        roi: staked > 0 ? Math.round(pnl / staked * 10000) / 10000 : 0,
+        averageStake: bets > 0 ? Math.round(staked / bets * 100) / 100 : 0,
+        pnlCurve,
+        byOdds: finishBuckets(byOdds),
+        byDistance: finishBuckets(byDistance),
+    };
+}
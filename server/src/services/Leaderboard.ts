@@ -0,0 +1,150 @@
+import { Leaderboard, LeaderboardEntry, LeaderboardMetric, LeaderboardPeriod, RoomLeaderboards, LEADERBOARD_MIN_BETS, LEADERBOARD_SIZE } from '@trader-master/shared';
+import { accountStore, SettledQuery, StoredBet, StoredCombo } from '../storage';
+import { guestName } from '../utils/token';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['session', 'day', 'all'];
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['pnl', 'roi', 'winRate'];
+
+/** Start of the global session (this server process) */
+export const SERVER_STARTED_AT = Date.now();
+
+type PlayerStats = Omit<LeaderboardEntry, 'rank' | 'name'>;
+
+/** Bets / combos to rank, e.g. those of one room */
+export type LeaderboardScope = Pick<SettledQuery, 'roomId' | 'symbol'>;
+
+/**
+ * Start (unix ms) of a period: the given session start, UTC midnight for 'day', none for 'all'
+ */
+export function periodStart(period: LeaderboardPeriod, sessionStart: number): number | undefined {
+    switch (period) {
+        case 'session':
+            return sessionStart;
+        case 'day': {
+            const midnight = new Date();
+            midnight.setUTCHours(0, 0, 0, 0);
+            return midnight.getTime();
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Whether a settled bet or combo counts as a win or a loss; refunds and cancellations count as neither.
+ * A cash-out is a win when it returned more than the stake.
+ */
+export function betOutcome(record: StoredBet | StoredCombo): 'win' | 'loss' | null {
+    switch (record.status) {
+        case 'won':
+            return 'win';
+        case 'lost':
+            return 'loss';
+        case 'cashed_out':
+            return record.payout > record.amount ? 'win' : 'loss';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Per-account results of settled bets and combos.
+ * Refunds are ignored and cancellations only count their fee towards PnL.
+ */
+export function aggregateStats(records: (StoredBet | StoredCombo)[]): PlayerStats[] {
+    const stats = new Map<string, PlayerStats>();
+
+    records.forEach(record => {
+        if (record.status === 'refunded') return;
+
+        let entry = stats.get(record.accountId);
+        if (!entry) {
+            entry = { accountId: record.accountId, bets: 0, wins: 0, losses: 0, staked: 0, pnl: 0, roi: 0, winRate: 0 };
+            stats.set(record.accountId, entry);
+        }
+
+        entry.pnl += (record.payout || 0) - record.amount;
+        const outcome = betOutcome(record);
+        if (!outcome) return;
+
+        entry.bets++;
+        entry.staked += record.amount;
+        if (outcome === 'win') {
+            entry.wins++;
+        } else {
+            entry.losses++;
+        }
+    });
+
+    return Array.from(stats.values()).map(entry => ({
+        ...entry,
+        pnl: Math.round(entry.pnl * 100) / 100,
+        roi: entry.staked > 0 ? Math.round(entry.pnl / entry.staked * 10000) / 10000 : 0,
+        winRate: entry.wins + entry.losses > 0 ? Math.round(entry.wins / (entry.wins + entry.losses) * 10000) / 10000 : 0,
+    }));
+}
+
+/**
+ * Top players by a metric. ROI and win rate need LEADERBOARD_MIN_BETS settled bets to qualify.
+ */
+export function rankStats(stats: PlayerStats[], metric: LeaderboardMetric, limit: number = LEADERBOARD_SIZE): PlayerStats[] {
+    return stats
+        .filter(s => metric === 'pnl' || s.bets >= LEADERBOARD_MIN_BETS)
+        .sort((a, b) => b[metric] - a[metric] || b.pnl - a.pnl || b.staked - a.staked)
+        .slice(0, limit);
+}
+
+async function loadStats(scope: LeaderboardScope, period: LeaderboardPeriod, sessionStart: number): Promise<PlayerStats[]> {
+    const query: SettledQuery = { ...scope, from: periodStart(period, sessionStart) };
+    const [bets, combos] = await Promise.all([
+        accountStore.getSettledBets(query),
+        accountStore.getSettledCombos(query),
+    ]);
+    return aggregateStats([...bets, ...combos]);
+}
+
+/**
+ * Attach ranks and display names, looking each account up at most once
+ */
+async function toEntries(ranked: PlayerStats[], names: Map<string, string>): Promise<LeaderboardEntry[]> {
+    const entries: LeaderboardEntry[] = [];
+    for (const [i, stats] of ranked.entries()) {
+        let name = names.get(stats.accountId);
+        if (name === undefined) {
+            const account = await accountStore.getAccount(stats.accountId);
+            name = account?.username || (stats.accountId.startsWith('guest-') ? guestName(stats.accountId) : stats.accountId);
+            names.set(stats.accountId, name);
+        }
+        entries.push({ ...stats, rank: i + 1, name });
+    }
+    return entries;
+}
+
+export async function getLeaderboard(
+    scope: LeaderboardScope,
+    period: LeaderboardPeriod,
+    metric: LeaderboardMetric,
+    sessionStart: number,
+    limit: number = LEADERBOARD_SIZE,
+): Promise<Leaderboard> {
+    const stats = await loadStats(scope, period, sessionStart);
+    const entries = await toEntries(rankStats(stats, metric, limit), new Map());
+    return { period, metric, entries };
+}
+
+/**
+ * Every period / metric combination for one room, as synced to its clients
+ */
+export async function getRoomLeaderboards(roomId: string, sessionStart: number): Promise<RoomLeaderboards> {
+    const names = new Map<string, string>();
+    const boards = {} as RoomLeaderboards;
+
+    for (const period of LEADERBOARD_PERIODS) {
+        const stats = await loadStats({ roomId }, period, sessionStart);
+        boards[period] = {} as RoomLeaderboards[LeaderboardPeriod];
+        for (const metric of LEADERBOARD_METRICS) {
+            boards[period][metric] = await toEntries(rankStats(stats, metric), names);
+        }
+    }
+    return boards;
+}
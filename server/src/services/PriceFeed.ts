@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events';
+
+export interface PriceUpdate {
+    price: number;
+    conf: number;
+    /** Publish time in unix seconds */
+    time: number;
+}
+
+/**
+ * Base class for every price source a room can run on.
+ * Implementations emit 'price_update' with a PriceUpdate payload,
+ * and optionally 'connected' once the source is live.
+ */
+export abstract class PriceFeed extends EventEmitter {
+    protected latestPrice: number = 0;
+    protected latestConf: number = 0;
+    protected lastUpdateTime: number = 0;
+
+    constructor(protected readonly symbol: string) {
+        super();
+    }
+
+    public abstract start(): void | Promise<void>;
+
+    public abstract stop(): void;
+
+    protected publish(update: PriceUpdate) {
+        this.latestPrice = update.price;
+        this.latestConf = update.conf;
+        this.lastUpdateTime = update.time;
+
+        this.emit('price_update', update);
+    }
+
+    public getPrice(): PriceUpdate {
+        return {
+            price: this.latestPrice,
+            conf: this.latestConf,
+            time: this.lastUpdateTime
+        };
+    }
+}
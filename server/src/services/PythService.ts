@@ -1,26 +1,20 @@
-import { EventEmitter } from 'events';
 import { HermesClient } from "@pythnetwork/hermes-client";
+import { PriceFeed } from './PriceFeed';
 
 const HERMES_URL = 'https://hermes.pyth.network';
-export const PRICE_IDS: Record<string, string> = {
-    'XAUUSD': '765d2ba906dbc32ca17cc11f5310a89e9ee1f6420508c63861f2f8ba4ee34bb2',
-    // Add more symbols here as needed
-};
 
-export class PythService extends EventEmitter {
+export class PythService extends PriceFeed {
     private client: HermesClient;
     private eventSource: EventSource | null = null;
     private reconnectTimeout: NodeJS.Timeout | null = null;
-    private latestPrice: number = 0;
-    private latestConf: number = 0;
-    private lastUpdateTime: number = 0;
     private isConnected: boolean = false;
-    private symbol: string;
+    private priceId: string | undefined;
 
-    constructor(symbol: string = 'XAUUSD') {
-        super();
+    constructor(symbol: string = 'XAUUSD', priceId?: string) {
+        super(symbol);
         this.client = new HermesClient(HERMES_URL, { timeout: 30000 });
-        this.symbol = symbol;
+        // Price IDs come from the symbol's feedId in the market config
+        this.priceId = priceId;
     }
 
     public async start() {
@@ -35,9 +29,9 @@ export class PythService extends EventEmitter {
 
         console.log(`Connecting to Pyth Hermes: ${HERMES_URL} for ${this.symbol}`);
 
-        const priceId = PRICE_IDS[this.symbol];
+        const priceId = this.priceId;
         if (!priceId) {
-            console.error(`Price ID not found for symbol: ${this.symbol}`);
+            console.error(`Price ID not configured for symbol: ${this.symbol}`);
             return;
         }
 
@@ -65,14 +59,10 @@ export class PythService extends EventEmitter {
                             const conf = Number(priceUpdate.price.conf) * Math.pow(10, priceUpdate.price.expo);
                             const publishTime = priceUpdate.price.publish_time;
 
-                            this.latestPrice = price;
-                            this.latestConf = conf;
-                            this.lastUpdateTime = publishTime;
-
-                            this.emit('price_update', {
-                                price: this.latestPrice,
-                                conf: this.latestConf,
-                                time: this.lastUpdateTime
+                            this.publish({
+                                price,
+                                conf,
+                                time: publishTime
                             });
                         }
                     }
@@ -115,12 +105,4 @@ export class PythService extends EventEmitter {
             this.start();
         }, 5000);
     }
-
-    public getPrice() {
-        return {
-            price: this.latestPrice,
-            conf: this.latestConf,
-            time: this.lastUpdateTime
-        };
-    }
 }
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReplayFeedConfig } from '@trader-master/shared';
+import { PriceFeed } from './PriceFeed';
+
+interface ReplayTick {
+    /** Original record time in unix seconds (may be fractional) */
+    time: number;
+    price: number;
+    conf: number;
+}
+
+/**
+ * Replays recorded ticks or 1s candles from a CSV/JSONL file.
+ *
+ * Tick records need `time` and `price` (optional `conf`); candle records need
+ * `time`, `open`, `high`, `low` and `close`. Each candle is expanded into four
+ * ticks (open, extremes, close) spread across its second so Market rebuilds
+ * the same OHLC. Times may be unix seconds, unix milliseconds or ISO strings.
+ */
+export class ReplayFeed extends PriceFeed {
+    private ticks: ReplayTick[] = [];
+    private cursor: number = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+
+    private readonly file: string;
+    private readonly format: 'csv' | 'jsonl';
+    private readonly startOffset: number;
+    private readonly speed: number;
+    private readonly loop: boolean;
+
+    constructor(symbol: string, config: Omit<ReplayFeedConfig, 'provider'>) {
+        super(symbol);
+        this.file = path.resolve(process.cwd(), config.file);
+        this.format = config.format || (this.file.endsWith('.csv') ? 'csv' : 'jsonl');
+        this.startOffset = config.startOffset ?? 0;
+        this.speed = config.speed && config.speed > 0 ? config.speed : 1;
+        this.loop = config.loop ?? false;
+    }
+
+    public async start() {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        try {
+            if (this.ticks.length === 0) {
+                const content = await fs.readFile(this.file, 'utf8');
+                this.ticks = this.format === 'csv' ? parseCsv(content) : parseJsonl(content);
+                this.ticks.sort((a, b) => a.time - b.time);
+            }
+        } catch (error) {
+            console.error(`Failed to load replay file ${this.file}:`, error);
+            this.running = false;
+            return;
+        }
+
+        if (this.ticks.length === 0) {
+            console.error(`Replay file ${this.file} contains no usable records`);
+            this.running = false;
+            return;
+        }
+
+        // A stop() during the file read wins
+        if (!this.running) {
+            return;
+        }
+
+        this.cursor = this.findStartIndex();
+        console.log(`Replaying ${this.ticks.length - this.cursor} ticks for ${this.symbol} from ${this.file} at ${this.speed}x`);
+        this.emit('connected');
+        this.playNext();
+    }
+
+    public stop() {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private findStartIndex(): number {
+        const startTime = this.ticks[0].time + this.startOffset;
+        const index = this.ticks.findIndex(t => t.time >= startTime);
+        return index === -1 ? this.ticks.length - 1 : index;
+    }
+
+    private playNext() {
+        if (!this.running) return;
+
+        const tick = this.ticks[this.cursor];
+        this.publish({ price: tick.price, conf: tick.conf, time: Math.floor(tick.time) });
+
+        this.cursor++;
+        if (this.cursor >= this.ticks.length) {
+            if (!this.loop) {
+                console.log(`Replay of ${this.file} finished`);
+                this.emit('end');
+                this.stop();
+                return;
+            }
+            this.cursor = this.findStartIndex();
+            this.timer = setTimeout(() => this.playNext(), 1000 / this.speed);
+            return;
+        }
+
+        const delay = Math.max(0, (this.ticks[this.cursor].time - tick.time) * 1000 / this.speed);
+        this.timer = setTimeout(() => this.playNext(), delay);
+    }
+}
+
+function parseTime(value: unknown): number {
+    if (typeof value === 'number') {
+        return value > 1e12 ? value / 1000 : value;
+    }
+    const text = String(value).trim();
+    const numeric = Number(text);
+    if (text !== '' && !Number.isNaN(numeric)) {
+        return numeric > 1e12 ? numeric / 1000 : numeric;
+    }
+    return Date.parse(text) / 1000;
+}
+
+/**
+ * Convert one parsed record (tick or candle) into replay ticks
+ */
+function toTicks(record: Record<string, unknown>): ReplayTick[] {
+    const time = parseTime(record.time ?? record.timestamp);
+    if (!Number.isFinite(time)) return [];
+
+    const conf = Number(record.conf ?? 0) || 0;
+
+    if (record.close !== undefined) {
+        const open = Number(record.open);
+        const high = Number(record.high);
+        const low = Number(record.low);
+        const close = Number(record.close);
+        if (![open, high, low, close].every(Number.isFinite)) return [];
+
+        // Visit the extremes in the order an up/down candle most likely took
+        const [first, second] = close >= open ? [low, high] : [high, low];
+        return [
+            { time, price: open, conf },
+            { time: time + 0.25, price: first, conf },
+            { time: time + 0.5, price: second, conf },
+            { time: time + 0.75, price: close, conf },
+        ];
+    }
+
+    const price = Number(record.price);
+    if (!Number.isFinite(price)) return [];
+    return [{ time, price, conf }];
+}
+
+function parseCsv(content: string): ReplayTick[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) return [];
+
+    const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+    const ticks: ReplayTick[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+        const values = lines[i].split(',');
+        const record: Record<string, unknown> = {};
+        header.forEach((key, index) => {
+            record[key] = values[index]?.trim();
+        });
+        ticks.push(...toTicks(record));
+    }
+
+    return ticks;
+}
+
+function parseJsonl(content: string): ReplayTick[] {
+    const ticks: ReplayTick[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        if (line.trim() === '') return;
+        try {
+            ticks.push(...toTicks(JSON.parse(line)));
+        } catch (err) {
+            console.warn(`Skipping malformed replay line ${index + 1}:`, err);
+        }
+    });
+
+    return ticks;
+}
@@ -0,0 +1,276 @@
+import { RiskConfig, SettlementRule } from '@trader-master/shared';
+
+interface CellExposure {
+    cellId: string;
+    startTime: number;
+    lowPrice: number;
+    highPrice: number;
+    custom: boolean;
+    stake: number;
+    payout: number;
+}
+
+export interface RiskCell {
+    id: string;
+    startTime: number;
+    lowPrice: number;
+    highPrice: number;
+    /** Custom box: may overlap grid cells and other boxes, so it is kept out of the grid columns */
+    custom?: boolean;
+}
+
+export interface RiskCheck {
+    /** Amount that may be accepted (0 when rejected) */
+    amount: number;
+    reason?: string;
+}
+
+export interface ExposureSnapshot {
+    limits: Required<RiskConfig>;
+    roomLiability: number;
+    comboLiability: number;
+    customLiability: number;
+    columns: { startTime: number; stake: number; liability: number }[];
+    cells: (CellExposure & { liability: number })[];
+}
+
+/**
+ * Tracks the house's worst-case liability on open bets per cell, per column and per room.
+ *
+ * Cell liability is what the house loses if that cell wins (payouts minus stakes).
+ * For rules where only one cell of a column can win (close, stay) the column
+ * liability is the largest cell payout minus all stakes in the column;
+ * for touch/avoid every cell may win, so payouts are summed.
+ * Custom boxes can win together with any grid cell or other box, so they stay out of the columns
+ * and their liabilities are summed.
+ * Room liability is the sum of positive column liabilities, custom box liabilities and the net
+ * payout of open combo bets (combos span several columns, so they are only limited at room level).
+ */
+export class RiskEngine {
+    private readonly limits: Required<RiskConfig>;
+    private readonly exclusiveColumns: boolean;
+    private cells = new Map<string, CellExposure>();
+    private comboLiability: number = 0;
+
+    constructor(config: RiskConfig = {}, rule: SettlementRule) {
+        this.limits = {
+            maxCellLiability: config.maxCellLiability ?? Infinity,
+            maxColumnLiability: config.maxColumnLiability ?? Infinity,
+            maxRoomLiability: config.maxRoomLiability ?? Infinity,
+            breachAction: config.breachAction || 'reject',
+            oddsSkew: Math.min(1, Math.max(0, config.oddsSkew ?? 0)),
+        };
+        this.exclusiveColumns = rule === 'close' || rule === 'stay';
+    }
+
+    /**
+     * Check a prospective bet against all limits.
+     * Returns the full amount, a trimmed amount (breachAction 'trim') or 0 with a reason.
+     */
+    checkBet(cell: RiskCell, amount: number, odds: number): RiskCheck {
+        const breach = this.findBreach(cell, amount, odds);
+        if (!breach) {
+            return { amount };
+        }
+
+        if (this.limits.breachAction !== 'trim') {
+            return { amount: 0, reason: breach };
+        }
+
+        // Liabilities grow monotonically with the stake, so binary search the largest acceptable amount
+        let low = 0;
+        let high = amount;
+        for (let i = 0; i < 30; i++) {
+            const mid = (low + high) / 2;
+            if (this.findBreach(cell, mid, odds)) {
+                high = mid;
+            } else {
+                low = mid;
+            }
+        }
+
+        const trimmed = Math.floor(low);
+        return trimmed > 0 ? { amount: trimmed, reason: breach } : { amount: 0, reason: breach };
+    }
+
+    /**
+     * Check a prospective combo bet against the room limit (same reject / trim behaviour as checkBet)
+     */
+    checkCombo(amount: number, odds: number): RiskCheck {
+        const headroom = this.limits.maxRoomLiability - this.getRoomLiability();
+        if (amount * (odds - 1) <= headroom) {
+            return { amount };
+        }
+
+        const reason = "Room exposure limit reached";
+        if (this.limits.breachAction !== 'trim' || odds <= 1) {
+            return { amount: 0, reason };
+        }
+        const trimmed = Math.floor(Math.max(0, headroom) / (odds - 1));
+        return { amount: trimmed, reason };
+    }
+
+    addCombo(amount: number, odds: number) {
+        this.comboLiability += amount * (odds - 1);
+    }
+
+    releaseCombo(amount: number, odds: number) {
+        this.comboLiability = Math.max(0, this.comboLiability - amount * (odds - 1));
+    }
+
+    addBet(cell: RiskCell, amount: number, odds: number) {
+        const exposure = this.getOrCreate(cell);
+        exposure.stake += amount;
+        exposure.payout += amount * odds;
+    }
+
+    /**
+     * Release a bet once it is settled, refunded or cancelled
+     */
+    releaseBet(cellId: string, amount: number, odds: number) {
+        const exposure = this.cells.get(cellId);
+        if (!exposure) return;
+
+        exposure.stake -= amount;
+        exposure.payout -= amount * odds;
+        if (exposure.stake <= 1e-9) {
+            this.cells.delete(cellId);
+        }
+    }
+
+    /**
+     * Lower the odds on cells where liability has piled up, proportionally to how close
+     * the cell is to its limit
+     */
+    skewOdds(cellId: string, odds: number): number {
+        if (this.limits.oddsSkew <= 0 || !Number.isFinite(this.limits.maxCellLiability)) {
+            return odds;
+        }
+
+        const liability = this.getCellLiability(cellId);
+        if (liability <= 0) return odds;
+
+        const load = Math.min(1, liability / this.limits.maxCellLiability);
+        const skewed = odds * (1 - this.limits.oddsSkew * load);
+        return Math.max(1.01, Math.round(skewed * 100) / 100);
+    }
+
+    getCellLiability(cellId: string): number {
+        const exposure = this.cells.get(cellId);
+        return exposure ? exposure.payout - exposure.stake : 0;
+    }
+
+    getColumnLiability(startTime: number): number {
+        return this.columnLiability(this.columnCells(startTime));
+    }
+
+    getRoomLiability(): number {
+        let total = this.comboLiability + this.getCustomLiability();
+        this.columnTimes().forEach(startTime => {
+            total += Math.max(0, this.getColumnLiability(startTime));
+        });
+        return total;
+    }
+
+    /**
+     * Net payout of all open custom boxes (each box counted on its own)
+     */
+    getCustomLiability(): number {
+        return this.customCells().reduce((sum, c) => sum + Math.max(0, c.payout - c.stake), 0);
+    }
+
+    getExposure(): ExposureSnapshot {
+        const columns = Array.from(this.columnTimes()).sort((a, b) => a - b).map(startTime => {
+            const cells = this.columnCells(startTime);
+            return {
+                startTime,
+                stake: cells.reduce((sum, c) => sum + c.stake, 0),
+                liability: this.columnLiability(cells),
+            };
+        });
+
+        return {
+            limits: this.limits,
+            roomLiability: this.getRoomLiability(),
+            comboLiability: this.comboLiability,
+            customLiability: this.getCustomLiability(),
+            columns,
+            cells: Array.from(this.cells.values()).map(c => ({ ...c, liability: c.payout - c.stake })),
+        };
+    }
+
+    private findBreach(cell: RiskCell, amount: number, odds: number): string | null {
+        const existing = this.cells.get(cell.id);
+        const prospective: CellExposure = {
+            cellId: cell.id,
+            startTime: cell.startTime,
+            lowPrice: cell.lowPrice,
+            highPrice: cell.highPrice,
+            custom: !!cell.custom,
+            stake: (existing?.stake || 0) + amount,
+            payout: (existing?.payout || 0) + amount * odds,
+        };
+
+        if (prospective.payout - prospective.stake > this.limits.maxCellLiability) {
+            return "Cell exposure limit reached";
+        }
+
+        if (prospective.custom) {
+            const current = existing ? Math.max(0, existing.payout - existing.stake) : 0;
+            const roomLiability = this.getRoomLiability() - current + Math.max(0, prospective.payout - prospective.stake);
+            return roomLiability > this.limits.maxRoomLiability ? "Room exposure limit reached" : null;
+        }
+
+        const column = this.columnCells(cell.startTime).filter(c => c.cellId !== cell.id);
+        column.push(prospective);
+        const columnLiability = this.columnLiability(column);
+        if (columnLiability > this.limits.maxColumnLiability) {
+            return "Column exposure limit reached";
+        }
+
+        const currentColumn = Math.max(0, this.getColumnLiability(cell.startTime));
+        const roomLiability = this.getRoomLiability() - currentColumn + Math.max(0, columnLiability);
+        if (roomLiability > this.limits.maxRoomLiability) {
+            return "Room exposure limit reached";
+        }
+
+        return null;
+    }
+
+    private columnLiability(cells: CellExposure[]): number {
+        const stake = cells.reduce((sum, c) => sum + c.stake, 0);
+        const payout = this.exclusiveColumns
+            ? cells.reduce((max, c) => Math.max(max, c.payout), 0)
+            : cells.reduce((sum, c) => sum + c.payout, 0);
+        return payout - stake;
+    }
+
+    private columnCells(startTime: number): CellExposure[] {
+        return Array.from(this.cells.values()).filter(c => !c.custom && c.startTime === startTime);
+    }
+
+    private columnTimes(): Set<number> {
+        return new Set(Array.from(this.cells.values()).filter(c => !c.custom).map(c => c.startTime));
+    }
+
+    private customCells(): CellExposure[] {
+        return Array.from(this.cells.values()).filter(c => c.custom);
+    }
+
+    private getOrCreate(cell: RiskCell): CellExposure {
+        let exposure = this.cells.get(cell.id);
+        if (!exposure) {
+            exposure = {
+                cellId: cell.id,
+                startTime: cell.startTime,
+                lowPrice: cell.lowPrice,
+                highPrice: cell.highPrice,
+                custom: !!cell.custom,
+                stake: 0,
+                payout: 0,
+            };
+            this.cells.set(cell.id, exposure);
+        }
+        return exposure;
+    }
+}
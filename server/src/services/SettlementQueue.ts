@@ -0,0 +1,100 @@
+/**
+ * Min-heap of items keyed by a unix time, popped once due.
+ *
+ * Entries are never removed early: callers check on pop whether the item still
+ * needs handling (e.g. a bet cancelled or cashed out before its window closed).
+ */
+export class SettlementQueue<T> {
+    private heap: { time: number; item: T }[] = [];
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    push(time: number, item: T) {
+        this.heap.push({ time, item });
+        this.siftUp(this.heap.length - 1);
+    }
+
+    /**
+     * Earliest time in the queue
+     */
+    peekTime(): number | undefined {
+        return this.heap[0]?.time;
+    }
+
+    /**
+     * Remove and return every item due at `now` (time <= now), earliest first
+     */
+    popDue(now: number): T[] {
+        const due: T[] = [];
+        while (this.heap.length > 0 && this.heap[0].time <= now) {
+            due.push(this.pop()!);
+        }
+        return due;
+    }
+
+    private pop(): T | undefined {
+        const top = this.heap[0];
+        const last = this.heap.pop();
+        if (this.heap.length > 0 && last) {
+            this.heap[0] = last;
+            this.siftDown(0);
+        }
+        return top?.item;
+    }
+
+    private siftUp(index: number) {
+        const entry = this.heap[index];
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.heap[parent].time <= entry.time) break;
+            this.heap[index] = this.heap[parent];
+            index = parent;
+        }
+        this.heap[index] = entry;
+    }
+
+    private siftDown(index: number) {
+        const entry = this.heap[index];
+        const length = this.heap.length;
+        while (true) {
+            const left = 2 * index + 1;
+            if (left >= length) break;
+            const right = left + 1;
+            const child = right < length && this.heap[right].time < this.heap[left].time ? right : left;
+            if (this.heap[child].time >= entry.time) break;
+            this.heap[index] = this.heap[child];
+            index = child;
+        }
+        this.heap[index] = entry;
+    }
+}
+
+/**
+ * Number of bets and combo legs referencing each cell; a cell with references is kept after it expires
+ */
+export class CellBetCounts {
+    private counts = new Map<string, number>();
+
+    add(cellId: string) {
+        this.counts.set(cellId, (this.counts.get(cellId) || 0) + 1);
+    }
+
+    /**
+     * Drop one reference; returns true when it was the cell's last one
+     */
+    release(cellId: string): boolean {
+        const count = (this.counts.get(cellId) || 0) - 1;
+        if (count > 0) {
+            this.counts.set(cellId, count);
+            return false;
+        }
+        this.counts.delete(cellId);
+        return true;
+    }
+
+    has(cellId: string): boolean {
+        return this.counts.has(cellId);
+    }
+}
@@ -0,0 +1,85 @@
+import { SimulatedFeedConfig } from '@trader-master/shared';
+import { PriceFeed } from './PriceFeed';
+import { SeededRandom } from '../utils/random';
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * Offline price source driven by geometric Brownian motion with optional
+ * Poisson jumps (Merton jump-diffusion). Lets a room run without network access.
+ */
+export class SimulatedFeed extends PriceFeed {
+    private timer: NodeJS.Timeout | null = null;
+    private random: SeededRandom;
+    private price: number;
+
+    private readonly drift: number;
+    private readonly volatility: number;
+    private readonly jumpIntensity: number;
+    private readonly jumpMean: number;
+    private readonly jumpStdDev: number;
+    private readonly updateInterval: number;
+
+    constructor(symbol: string, config: Omit<SimulatedFeedConfig, 'provider'> = {}) {
+        super(symbol);
+        this.price = config.startPrice ?? 100;
+        this.drift = config.drift ?? 0;
+        this.volatility = config.volatility ?? 0.5;
+        this.jumpIntensity = config.jumpIntensity ?? 0;
+        this.jumpMean = config.jumpMean ?? 0;
+        this.jumpStdDev = config.jumpStdDev ?? 0.002;
+        this.updateInterval = config.updateInterval ?? 1000;
+        this.random = new SeededRandom(config.seed);
+    }
+
+    public start() {
+        if (this.timer) {
+            return;
+        }
+
+        console.log(`Starting simulated feed for ${this.symbol} at ${this.price}`);
+        this.emit('connected');
+
+        // Publish the start price immediately so the room can initialize
+        this.publishCurrent();
+        this.timer = setInterval(() => {
+            this.step();
+            this.publishCurrent();
+        }, this.updateInterval);
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Advance the price by one update interval
+     */
+    private step() {
+        const dt = this.updateInterval / 1000 / SECONDS_PER_YEAR;
+        const sigma = this.volatility;
+
+        let logReturn = (this.drift - 0.5 * sigma * sigma) * dt + sigma * Math.sqrt(dt) * this.random.gaussian();
+
+        if (this.jumpIntensity > 0) {
+            const expectedJumps = this.jumpIntensity * this.updateInterval / 1000 / 3600;
+            const jumps = this.random.poisson(expectedJumps);
+            for (let i = 0; i < jumps; i++) {
+                logReturn += this.random.gaussian(this.jumpMean, this.jumpStdDev);
+            }
+        }
+
+        this.price *= Math.exp(logReturn);
+    }
+
+    private publishCurrent() {
+        this.publish({
+            price: this.price,
+            conf: 0,
+            time: Math.floor(Date.now() / 1000)
+        });
+    }
+}
@@ -0,0 +1,21 @@
+import { PriceFeedConfig } from '@trader-master/shared';
+import { PriceFeed } from './PriceFeed';
+import { PythService } from './PythService';
+import { SimulatedFeed } from './SimulatedFeed';
+import { ReplayFeed } from './ReplayFeed';
+
+/**
+ * Build the price source selected by a room's `priceFeed` config
+ */
+export function createPriceFeed(symbol: string, config: PriceFeedConfig = { provider: 'pyth' }): PriceFeed {
+    switch (config.provider) {
+        case 'simulated':
+            return new SimulatedFeed(symbol, config);
+        case 'replay':
+            return new ReplayFeed(symbol, config);
+        case 'pyth':
+            return new PythService(symbol, config.priceId);
+        default:
+            throw new Error(`Unknown price feed provider: ${(config as PriceFeedConfig).provider}`);
+    }
+}
@@ -0,0 +1,81 @@
+import { BetData, ComboBetData } from '@trader-master/shared';
+
+export interface AccountRecord {
+    /** Stable player identity (not the transport session) */
+    id: string;
+    /** Login name of a named (non-guest) account */
+    username?: string;
+    /** scrypt hash, `salt:hash` hex */
+    passwordHash?: string;
+    balance: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type AccountProfile = Pick<AccountRecord, 'username' | 'passwordHash'>;
+
+export interface StoredBet extends BetData {
+    /** Stable player identity owning the bet */
+    accountId: string;
+    symbol: string;
+    roomId: string;
+    createdAt: number;
+    settledAt?: number;
+}
+
+export interface StoredCombo extends ComboBetData {
+    accountId: string;
+    symbol: string;
+    roomId: string;
+    createdAt: number;
+    settledAt?: number;
+}
+
+export interface SettledQuery {
+    accountId?: string;
+    roomId?: string;
+    symbol?: string;
+    /** Inclusive settledAt range (unix ms) */
+    from?: number;
+    to?: number;
+}
+
+/**
+ * Whether a stored bet or combo is settled and matches the query
+ */
+export function matchesSettled(record: StoredBet | StoredCombo, query: SettledQuery): boolean {
+    if (record.status === 'pending' || record.settledAt === undefined) return false;
+    if (query.accountId && record.accountId !== query.accountId) return false;
+    if (query.roomId && record.roomId !== query.roomId) return false;
+    if (query.symbol && record.symbol !== query.symbol) return false;
+    if (query.from !== undefined && record.settledAt < query.from) return false;
+    if (query.to !== undefined && record.settledAt > query.to) return false;
+    return true;
+}
+
+/**
+ * Persistence for player accounts and their bets.
+ * Implementations must survive process restarts; MarketRoom writes through on every balance change.
+ */
+export interface AccountStore {
+    getAccount(id: string): Promise<AccountRecord | null>;
+    /**
+     * Load an account, creating it with the given opening balance if it does not exist.
+     * `created` is true only for the call that actually created it, so concurrent opens record one opening balance.
+     */
+    getOrCreateAccount(id: string, initialBalance: number, profile?: AccountProfile): Promise<{ account: AccountRecord; created: boolean }>;
+    findAccountByUsername(username: string): Promise<AccountRecord | null>;
+    listAccounts(): Promise<AccountRecord[]>;
+    updateBalance(id: string, balance: number): Promise<void>;
+    /** Insert a bet, or merge the given fields into an existing one (keeping its createdAt) */
+    saveBet(bet: StoredBet): Promise<void>;
+    getBet(id: string): Promise<StoredBet | null>;
+    getOpenBets(accountId: string, symbol?: string): Promise<StoredBet[]>;
+    /** Insert or merge a combo bet, like saveBet */
+    saveCombo(combo: StoredCombo): Promise<void>;
+    getOpenCombos(accountId: string, symbol?: string): Promise<StoredCombo[]>;
+    getSettledBets(query: SettledQuery): Promise<StoredBet[]>;
+    getSettledCombos(query: SettledQuery): Promise<StoredCombo[]>;
+    /** Wait for pending writes to reach storage */
+    flush(): Promise<void>;
+}
@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { Ledger, LedgerEntry, LedgerEntryInput, LedgerQuery, playerAccount } from './Ledger';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export function hashEntry(entry: Omit<LedgerEntry, 'hash'>): string {
+    return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+/**
+ * In-memory ledger logic shared by the storage backends.
+ * Subclasses only decide where appended entries are written.
+ */
+export abstract class BaseLedger implements Ledger {
+    protected entries: LedgerEntry[] = [];
+
+    protected abstract persist(entry: LedgerEntry): Promise<void>;
+
+    abstract flush(): Promise<void>;
+
+    async append(input: LedgerEntryInput): Promise<LedgerEntry> {
+        if (!(input.amount >= 0)) {
+            throw new Error(`Ledger amount must be non-negative, got ${input.amount}`);
+        }
+
+        const last = this.entries[this.entries.length - 1];
+        const unsigned: Omit<LedgerEntry, 'hash'> = {
+            ...input,
+            seq: last ? last.seq + 1 : 1,
+            timestamp: Date.now(),
+            prevHash: last ? last.hash : GENESIS_HASH,
+        };
+        const entry: LedgerEntry = Object.freeze({ ...unsigned, hash: hashEntry(unsigned) });
+
+        this.entries.push(entry);
+        await this.persist(entry);
+        return entry;
+    }
+
+    async query(query: LedgerQuery = {}): Promise<{ total: number; entries: LedgerEntry[] }> {
+        const matches = this.entries.filter(e =>
+            (query.accountId === undefined || e.accountId === query.accountId) &&
+            (query.roomId === undefined || e.roomId === query.roomId) &&
+            (query.betId === undefined || e.betId === query.betId) &&
+            (query.from === undefined || e.timestamp >= query.from) &&
+            (query.to === undefined || e.timestamp <= query.to)
+        );
+
+        const offset = query.offset ?? 0;
+        const limit = query.limit ?? matches.length;
+        return { total: matches.length, entries: matches.slice(offset, offset + limit) };
+    }
+
+    async getPlayerTotal(accountId: string): Promise<number> {
+        const account = playerAccount(accountId);
+        return this.entries.reduce((total, e) => {
+            if (e.credit === account) total += e.amount;
+            if (e.debit === account) total -= e.amount;
+            return total;
+        }, 0);
+    }
+
+    async verifyChain(): Promise<number | null> {
+        let prevHash = GENESIS_HASH;
+        for (const entry of this.entries) {
+            const { hash, ...unsigned } = entry;
+            if (entry.prevHash !== prevHash || hashEntry(unsigned) !== hash) {
+                return entry.seq;
+            }
+            prevHash = hash;
+        }
+        return null;
+    }
+}
@@ -0,0 +1,131 @@
+import { promises as fs, existsSync, readFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import { AccountProfile, AccountRecord, AccountStore, SettledQuery, StoredBet, StoredCombo, matchesSettled } from './AccountStore';
+
+interface FileContents {
+    accounts: Record<string, AccountRecord>;
+    bets: Record<string, StoredBet>;
+    combos: Record<string, StoredCombo>;
+}
+
+/**
+ * JSON file backed store. Data is held in memory and every mutation is
+ * written through to disk (temp file + rename, so a crash never leaves a torn file).
+ * Writes are serialized; a burst of changes collapses into a single write.
+ */
+export class FileAccountStore implements AccountStore {
+    private data: FileContents = { accounts: {}, bets: {}, combos: {} };
+    private writing: Promise<void> = Promise.resolve();
+    private dirty: boolean = false;
+
+    constructor(private readonly file: string) {
+        mkdirSync(path.dirname(file), { recursive: true });
+        if (existsSync(file)) {
+            try {
+                const parsed = JSON.parse(readFileSync(file, 'utf8'));
+                this.data = { accounts: parsed.accounts || {}, bets: parsed.bets || {}, combos: parsed.combos || {} };
+            } catch (err) {
+                throw new Error(`Failed to read account store ${file}: ${(err as Error).message}`);
+            }
+        }
+    }
+
+    async getAccount(id: string): Promise<AccountRecord | null> {
+        const account = this.data.accounts[id];
+        return account ? { ...account } : null;
+    }
+
+    async getOrCreateAccount(id: string, initialBalance: number, profile: AccountProfile = {}): Promise<{ account: AccountRecord; created: boolean }> {
+        let account = this.data.accounts[id];
+        const created = !account;
+        if (!account) {
+            const now = Date.now();
+            account = { id, ...profile, balance: initialBalance, createdAt: now, updatedAt: now };
+            this.data.accounts[id] = account;
+            this.scheduleWrite();
+        }
+        return { account: { ...account }, created };
+    }
+
+    async findAccountByUsername(username: string): Promise<AccountRecord | null> {
+        const account = Object.values(this.data.accounts).find(a => a.username === username);
+        return account ? { ...account } : null;
+    }
+
+    async listAccounts(): Promise<AccountRecord[]> {
+        return Object.values(this.data.accounts).map(a => ({ ...a }));
+    }
+
+    async updateBalance(id: string, balance: number): Promise<void> {
+        const account = this.data.accounts[id];
+        if (!account) {
+            throw new Error(`Account not found: ${id}`);
+        }
+        account.balance = balance;
+        account.updatedAt = Date.now();
+        return this.scheduleWrite();
+    }
+
+    async saveBet(bet: StoredBet): Promise<void> {
+        const existing = this.data.bets[bet.id];
+        this.data.bets[bet.id] = { ...existing, ...bet, createdAt: existing?.createdAt ?? bet.createdAt };
+        return this.scheduleWrite();
+    }
+
+    async getBet(id: string): Promise<StoredBet | null> {
+        const bet = this.data.bets[id];
+        return bet ? { ...bet } : null;
+    }
+
+    async getOpenBets(accountId: string, symbol?: string): Promise<StoredBet[]> {
+        return Object.values(this.data.bets)
+            .filter(b => b.accountId === accountId && b.status === 'pending' && (!symbol || b.symbol === symbol))
+            .map(b => ({ ...b }));
+    }
+
+    async saveCombo(combo: StoredCombo): Promise<void> {
+        const existing = this.data.combos[combo.id];
+        this.data.combos[combo.id] = { ...existing, ...combo, createdAt: existing?.createdAt ?? combo.createdAt };
+        return this.scheduleWrite();
+    }
+
+    async getOpenCombos(accountId: string, symbol?: string): Promise<StoredCombo[]> {
+        return Object.values(this.data.combos)
+            .filter(c => c.accountId === accountId && c.status === 'pending' && (!symbol || c.symbol === symbol))
+            .map(c => ({ ...c, legs: c.legs.map(l => ({ ...l })) }));
+    }
+
+    async getSettledBets(query: SettledQuery): Promise<StoredBet[]> {
+        return Object.values(this.data.bets)
+            .filter(b => matchesSettled(b, query))
+            .map(b => ({ ...b }));
+    }
+
+    async getSettledCombos(query: SettledQuery): Promise<StoredCombo[]> {
+        return Object.values(this.data.combos)
+            .filter(c => matchesSettled(c, query))
+            .map(c => ({ ...c, legs: c.legs.map(l => ({ ...l })) }));
+    }
+
+    flush(): Promise<void> {
+        return this.writing;
+    }
+
+    private scheduleWrite(): Promise<void> {
+        if (this.dirty) {
+            return this.writing;
+        }
+        this.dirty = true;
+
+        this.writing = this.writing.then(async () => {
+            this.dirty = false;
+            const tmp = `${this.file}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(this.data));
+            await fs.rename(tmp, this.file);
+        }).catch(err => {
+            console.error(`Failed to write account store ${this.file}:`, err);
+        });
+
+        return this.writing;
+    }
+}
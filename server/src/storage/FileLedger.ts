@@ -0,0 +1,39 @@
+import { promises as fs, existsSync, readFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import { BaseLedger } from './BaseLedger';
+import { LedgerEntry } from './Ledger';
+
+/**
+ * JSONL ledger: one entry per line, only ever appended to
+ */
+export class FileLedger extends BaseLedger {
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly file: string) {
+        super();
+        mkdirSync(path.dirname(file), { recursive: true });
+        if (existsSync(file)) {
+            readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+                if (line.trim() === '') return;
+                try {
+                    this.entries.push(Object.freeze(JSON.parse(line)));
+                } catch (err) {
+                    throw new Error(`Corrupt ledger line ${index + 1} in ${file}: ${(err as Error).message}`);
+                }
+            });
+        }
+    }
+
+    protected persist(entry: LedgerEntry): Promise<void> {
+        this.writing = this.writing
+            .then(() => fs.appendFile(this.file, JSON.stringify(entry) + '\n'))
+            .catch(err => {
+                console.error(`Failed to append to ledger ${this.file}:`, err);
+            });
+        return this.writing;
+    }
+
+    flush(): Promise<void> {
+        return this.writing;
+    }
+}
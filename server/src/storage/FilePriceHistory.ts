@@ -0,0 +1,119 @@
+import { promises as fs, mkdirSync } from 'fs';
+import path from 'path';
+import { Candle } from '@trader-master/shared';
+import { PriceHistory, PriceTick } from './PriceHistory';
+
+const SECONDS_PER_DAY = 86400;
+
+const dayOf = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+
+/**
+ * JSONL price history, one directory per key and one file per UTC day:
+ * `<key>/<YYYY-MM-DD>.candles.jsonl` and `<key>/<YYYY-MM-DD>.ticks.jsonl`.
+ * Ticks are buffered and written together with the next candle.
+ */
+export class FilePriceHistory implements PriceHistory {
+    private writing: Promise<void> = Promise.resolve();
+    private lastCandleTime = new Map<string, number>();
+    private pendingTicks = new Map<string, PriceTick[]>();
+
+    constructor(private readonly dir: string) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    async getRecentCandles(key: string, count: number): Promise<Candle[]> {
+        const days = (await this.listDays(key)).reverse();
+        let candles: Candle[] = [];
+        for (const day of days) {
+            candles = [...(await this.readDay(key, day)), ...candles];
+            if (candles.length >= count) break;
+        }
+        return candles.slice(-count);
+    }
+
+    async getCandles(key: string, from: number, to: number): Promise<Candle[]> {
+        const candles: Candle[] = [];
+        for (let t = Math.floor(from / SECONDS_PER_DAY) * SECONDS_PER_DAY; t <= to; t += SECONDS_PER_DAY) {
+            const day = await this.readDay(key, dayOf(t));
+            day.forEach(c => {
+                if (c.time >= from && c.time <= to) candles.push(c);
+            });
+        }
+        return candles;
+    }
+
+    async appendCandle(key: string, candle: Candle): Promise<void> {
+        // Several rooms may record the same key; keep the first candle of each second
+        if (!this.lastCandleTime.has(key)) {
+            const [last] = await this.getRecentCandles(key, 1);
+            if (!this.lastCandleTime.has(key)) {
+                this.lastCandleTime.set(key, last ? last.time : -Infinity);
+            }
+        }
+        if (candle.time <= this.lastCandleTime.get(key)!) return;
+        this.lastCandleTime.set(key, candle.time);
+
+        const ticks = this.pendingTicks.get(key) || [];
+        this.pendingTicks.delete(key);
+
+        const keyDir = path.join(this.dir, key);
+        this.writing = this.writing
+            .then(async () => {
+                await fs.mkdir(keyDir, { recursive: true });
+                await fs.appendFile(path.join(keyDir, `${dayOf(candle.time)}.candles.jsonl`), JSON.stringify(candle) + '\n');
+                if (ticks.length > 0) {
+                    const lines = ticks.map(t => JSON.stringify(t) + '\n').join('');
+                    await fs.appendFile(path.join(keyDir, `${dayOf(ticks[0].time)}.ticks.jsonl`), lines);
+                }
+            })
+            .catch(err => {
+                console.error(`Failed to append price history for ${key}:`, err);
+            });
+        return this.writing;
+    }
+
+    async appendTick(key: string, tick: PriceTick): Promise<void> {
+        let ticks = this.pendingTicks.get(key);
+        if (!ticks) {
+            ticks = [];
+            this.pendingTicks.set(key, ticks);
+        }
+        ticks.push(tick);
+    }
+
+    flush(): Promise<void> {
+        return this.writing;
+    }
+
+    private async listDays(key: string): Promise<string[]> {
+        try {
+            const files = await fs.readdir(path.join(this.dir, key));
+            return files
+                .filter(f => f.endsWith('.candles.jsonl'))
+                .map(f => f.slice(0, -'.candles.jsonl'.length))
+                .sort();
+        } catch {
+            return [];
+        }
+    }
+
+    private async readDay(key: string, day: string): Promise<Candle[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(this.dir, key, `${day}.candles.jsonl`), 'utf8');
+        } catch {
+            return [];
+        }
+
+        const candles: Candle[] = [];
+        content.split('\n').forEach(line => {
+            if (line.trim() === '') return;
+            try {
+                candles.push(JSON.parse(line));
+            } catch {
+                // A crash can leave a torn last line; skip it
+            }
+        });
+        return candles;
+    }
+}
@@ -0,0 +1,76 @@
+export type LedgerEntryType =
+    | 'opening_balance'
+    | 'bet_debit'
+    | 'payout_credit'
+    | 'refund_credit'
+    | 'cancel_refund'
+    | 'cash_out_credit'
+    | 'bet_lost';
+
+/** Account name of the house side of every entry */
+export const HOUSE_ACCOUNT = 'house';
+
+export const playerAccount = (accountId: string) => `player:${accountId}`;
+
+export interface LedgerCell {
+    cellId: string;
+    startTime: number;
+    endTime: number;
+    lowPrice: number;
+    highPrice: number;
+    odds: number;
+}
+
+export interface LedgerEntryInput {
+    type: LedgerEntryType;
+    /** Account whose balance decreases */
+    debit: string;
+    /** Account whose balance increases */
+    credit: string;
+    /** Always >= 0; the direction is given by debit/credit */
+    amount: number;
+    accountId: string;
+    roomId?: string;
+    symbol?: string;
+    betId?: string;
+    cell?: LedgerCell;
+    /** Legs of a combo bet (instead of `cell`) */
+    legs?: LedgerCell[];
+    /** Closing price of the settlement window */
+    settlementPrice?: number;
+    /** Player balance right after this entry */
+    balanceAfter: number;
+}
+
+export interface LedgerEntry extends LedgerEntryInput {
+    seq: number;
+    timestamp: number;
+    /** Hash of the previous entry, chaining the log so edits are detectable */
+    prevHash: string;
+    hash: string;
+}
+
+export interface LedgerQuery {
+    accountId?: string;
+    roomId?: string;
+    betId?: string;
+    /** Unix ms, inclusive */
+    from?: number;
+    /** Unix ms, inclusive */
+    to?: number;
+    offset?: number;
+    limit?: number;
+}
+
+/**
+ * Append-only record of every balance movement. Entries can never be changed or removed.
+ */
+export interface Ledger {
+    append(entry: LedgerEntryInput): Promise<LedgerEntry>;
+    query(query?: LedgerQuery): Promise<{ total: number; entries: LedgerEntry[] }>;
+    /** Net ledger balance of a player (credits minus debits) */
+    getPlayerTotal(accountId: string): Promise<number>;
+    /** Recompute the hash chain; returns the first broken sequence number, or null */
+    verifyChain(): Promise<number | null>;
+    flush(): Promise<void>;
+}
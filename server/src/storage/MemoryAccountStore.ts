@@ -0,0 +1,87 @@
+import { AccountProfile, AccountRecord, AccountStore, SettledQuery, StoredBet, StoredCombo, matchesSettled } from './AccountStore';
+
+/**
+ * Non-persistent store for tests and throwaway rooms
+ */
+export class MemoryAccountStore implements AccountStore {
+    private accounts = new Map<string, AccountRecord>();
+    private bets = new Map<string, StoredBet>();
+    private combos = new Map<string, StoredCombo>();
+
+    async getAccount(id: string): Promise<AccountRecord | null> {
+        const account = this.accounts.get(id);
+        return account ? { ...account } : null;
+    }
+
+    async getOrCreateAccount(id: string, initialBalance: number, profile: AccountProfile = {}): Promise<{ account: AccountRecord; created: boolean }> {
+        let account = this.accounts.get(id);
+        const created = !account;
+        if (!account) {
+            const now = Date.now();
+            account = { id, ...profile, balance: initialBalance, createdAt: now, updatedAt: now };
+            this.accounts.set(id, account);
+        }
+        return { account: { ...account }, created };
+    }
+
+    async findAccountByUsername(username: string): Promise<AccountRecord | null> {
+        const account = Array.from(this.accounts.values()).find(a => a.username === username);
+        return account ? { ...account } : null;
+    }
+
+    async listAccounts(): Promise<AccountRecord[]> {
+        return Array.from(this.accounts.values()).map(a => ({ ...a }));
+    }
+
+    async updateBalance(id: string, balance: number): Promise<void> {
+        const account = this.accounts.get(id);
+        if (!account) {
+            throw new Error(`Account not found: ${id}`);
+        }
+        account.balance = balance;
+        account.updatedAt = Date.now();
+    }
+
+    async saveBet(bet: StoredBet): Promise<void> {
+        const existing = this.bets.get(bet.id);
+        this.bets.set(bet.id, { ...existing, ...bet, createdAt: existing?.createdAt ?? bet.createdAt });
+    }
+
+    async getBet(id: string): Promise<StoredBet | null> {
+        const bet = this.bets.get(id);
+        return bet ? { ...bet } : null;
+    }
+
+    async getOpenBets(accountId: string, symbol?: string): Promise<StoredBet[]> {
+        return Array.from(this.bets.values())
+            .filter(b => b.accountId === accountId && b.status === 'pending' && (!symbol || b.symbol === symbol))
+            .map(b => ({ ...b }));
+    }
+
+    async saveCombo(combo: StoredCombo): Promise<void> {
+        const existing = this.combos.get(combo.id);
+        this.combos.set(combo.id, { ...existing, ...combo, createdAt: existing?.createdAt ?? combo.createdAt });
+    }
+
+    async getOpenCombos(accountId: string, symbol?: string): Promise<StoredCombo[]> {
+        return Array.from(this.combos.values())
+            .filter(c => c.accountId === accountId && c.status === 'pending' && (!symbol || c.symbol === symbol))
+            .map(c => ({ ...c, legs: c.legs.map(l => ({ ...l })) }));
+    }
+
+    async getSettledBets(query: SettledQuery): Promise<StoredBet[]> {
+        return Array.from(this.bets.values())
+            .filter(b => matchesSettled(b, query))
+            .map(b => ({ ...b }));
+    }
+
+    async getSettledCombos(query: SettledQuery): Promise<StoredCombo[]> {
+        return Array.from(this.combos.values())
+            .filter(c => matchesSettled(c, query))
+            .map(c => ({ ...c, legs: c.legs.map(l => ({ ...l })) }));
+    }
+
+    async flush(): Promise<void> {
+        return;
+    }
+}
@@ -0,0 +1,14 @@
+import { BaseLedger } from './BaseLedger';
+
+/**
+ * Non-persistent ledger for tests and throwaway rooms
+ */
+export class MemoryLedger extends BaseLedger {
+    protected async persist(): Promise<void> {
+        return;
+    }
+
+    async flush(): Promise<void> {
+        return;
+    }
+}
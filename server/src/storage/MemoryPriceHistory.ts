@@ -0,0 +1,44 @@
+import { Candle } from '@trader-master/shared';
+import { PriceHistory, PriceTick } from './PriceHistory';
+
+/**
+ * Non-persistent price history for tests and throwaway rooms
+ */
+export class MemoryPriceHistory implements PriceHistory {
+    private candles = new Map<string, Candle[]>();
+    private ticks = new Map<string, PriceTick[]>();
+
+    async getRecentCandles(key: string, count: number): Promise<Candle[]> {
+        return (this.candles.get(key) || []).slice(-count).map(c => ({ ...c }));
+    }
+
+    async getCandles(key: string, from: number, to: number): Promise<Candle[]> {
+        return (this.candles.get(key) || [])
+            .filter(c => c.time >= from && c.time <= to)
+            .map(c => ({ ...c }));
+    }
+
+    async appendCandle(key: string, candle: Candle): Promise<void> {
+        let series = this.candles.get(key);
+        if (!series) {
+            series = [];
+            this.candles.set(key, series);
+        }
+        const last = series[series.length - 1];
+        if (last && candle.time <= last.time) return;
+        series.push({ ...candle });
+    }
+
+    async appendTick(key: string, tick: PriceTick): Promise<void> {
+        let ticks = this.ticks.get(key);
+        if (!ticks) {
+            ticks = [];
+            this.ticks.set(key, ticks);
+        }
+        ticks.push({ ...tick });
+    }
+
+    async flush(): Promise<void> {
+        return;
+    }
+}
@@ -0,0 +1,34 @@
+import { Candle, PriceFeedConfig } from '@trader-master/shared';
+
+export interface PriceTick {
+    /** Publish time in unix seconds */
+    time: number;
+    /** Unix ms when the server received the tick */
+    receivedAt: number;
+    price: number;
+    conf: number;
+}
+
+/**
+ * Recorded market data per history key (see historyKey): 1s candles and the raw feed ticks behind them
+ */
+export interface PriceHistory {
+    /** The most recent stored 1s candles, oldest first */
+    getRecentCandles(key: string, count: number): Promise<Candle[]>;
+    /** Stored 1s candles with time in [from, to] (unix seconds, inclusive), oldest first */
+    getCandles(key: string, from: number, to: number): Promise<Candle[]>;
+    /** Append a closed 1s candle; candles not newer than the last stored one are ignored */
+    appendCandle(key: string, candle: Candle): Promise<void>;
+    appendTick(key: string, tick: PriceTick): Promise<void>;
+    /** Wait for pending writes to reach storage */
+    flush(): Promise<void>;
+}
+
+/**
+ * Where a room's prices are recorded: live (Pyth) prices by symbol, other feeds
+ * (simulated, replay) separately so they never mix with real history
+ */
+export function historyKey(symbol: string, priceFeed?: PriceFeedConfig): string {
+    const provider = priceFeed?.provider || 'pyth';
+    return provider === 'pyth' ? symbol : `${symbol}.${provider}`;
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import { PLAYER_INITIAL_BALANCE } from '@trader-master/shared';
+import { AccountProfile, AccountRecord, AccountStore } from './AccountStore';
+import { FileAccountStore } from './FileAccountStore';
+import { MemoryAccountStore } from './MemoryAccountStore';
+import { Ledger, HOUSE_ACCOUNT, playerAccount } from './Ledger';
+import { FileLedger } from './FileLedger';
+import { MemoryLedger } from './MemoryLedger';
+import { PriceHistory } from './PriceHistory';
+import { FilePriceHistory } from './FilePriceHistory';
+import { MemoryPriceHistory } from './MemoryPriceHistory';
+
+export * from './AccountStore';
+export * from './Ledger';
+export * from './PriceHistory';
+export * from './reconcile';
+
+export const DATA_DIR = path.resolve(process.cwd(), process.env.DATA_DIR || 'data/store');
+
+/**
+ * Select the storage backend with STORAGE_DRIVER ('file' by default, or 'memory')
+ */
+export function createAccountStore(driver: string = process.env.STORAGE_DRIVER || 'file'): AccountStore {
+    switch (driver) {
+        case 'memory':
+            return new MemoryAccountStore();
+        case 'file':
+            return new FileAccountStore(path.join(DATA_DIR, 'accounts.json'));
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+}
+
+export function createLedger(driver: string = process.env.STORAGE_DRIVER || 'file'): Ledger {
+    switch (driver) {
+        case 'memory':
+            return new MemoryLedger();
+        case 'file':
+            return new FileLedger(path.join(DATA_DIR, 'ledger.jsonl'));
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+}
+
+export function createPriceHistory(driver: string = process.env.STORAGE_DRIVER || 'file'): PriceHistory {
+    switch (driver) {
+        case 'memory':
+            return new MemoryPriceHistory();
+        case 'file':
+            return new FilePriceHistory(path.join(DATA_DIR, 'prices'));
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+}
+
+/** Process-wide stores shared by every room */
+export const accountStore = createAccountStore();
+export const ledger = createLedger();
+export const priceHistory = createPriceHistory();
+
+/**
+ * Load an account, opening it with the initial balance (and its ledger entry) on first use
+ */
+export async function openAccount(id: string, profile?: AccountProfile): Promise<{ account: AccountRecord; created: boolean }> {
+    const { account, created } = await accountStore.getOrCreateAccount(id, PLAYER_INITIAL_BALANCE, profile);
+    if (!created) {
+        return { account, created };
+    }
+
+    await ledger.append({
+        type: 'opening_balance',
+        debit: HOUSE_ACCOUNT,
+        credit: playerAccount(id),
+        amount: account.balance,
+        accountId: id,
+        balanceAfter: account.balance,
+    });
+    return { account, created: true };
+}
@@ -0,0 +1,47 @@
+import { AccountStore } from './AccountStore';
+import { Ledger } from './Ledger';
+
+export interface AccountReconciliation {
+    accountId: string;
+    balance: number;
+    ledgerTotal: number;
+    difference: number;
+    reconciled: boolean;
+}
+
+export interface LedgerReconciliation {
+    chainValid: boolean;
+    /** Sequence number of the first entry whose hash chain is broken */
+    brokenAt: number | null;
+    reconciled: boolean;
+    accounts: AccountReconciliation[];
+}
+
+/**
+ * Check the ledger's hash chain and that every stored balance (or only `accountId`'s) equals its ledger total
+ */
+export async function reconcileLedger(accounts: AccountStore, ledger: Ledger, accountId?: string): Promise<LedgerReconciliation> {
+    const brokenAt = await ledger.verifyChain();
+    const records = await accounts.listAccounts();
+
+    const results = await Promise.all(records
+        .filter(a => !accountId || a.id === accountId)
+        .map(async account => {
+            const ledgerTotal = await ledger.getPlayerTotal(account.id);
+            const difference = Math.round((account.balance - ledgerTotal) * 1e6) / 1e6;
+            return {
+                accountId: account.id,
+                balance: account.balance,
+                ledgerTotal,
+                difference,
+                reconciled: difference === 0,
+            };
+        }));
+
+    return {
+        chainValid: brokenAt === null,
+        brokenAt,
+        reconciled: brokenAt === null && results.every(r => r.reconciled),
+        accounts: results,
+    };
+}
@@ -38,3 +38,51 @@ console.log("\n--- Verification: Sum of probabilities for wide range ---");
 const T_test = 1; // 1 year
 const wide_prob = BlackScholes.calculateProbability(S, 0.1, 1000, T_test);
 console.log(`Probability 0.1-1000 at 1 year: ${wide_prob.toFixed(4)}`);
+
+// --- Settlement rules: model vs Monte Carlo path simulation ---
+console.log("\n--- Settlement rule probabilities (model vs Monte Carlo) ---");
+const SECONDS = 31536000;
+const sigma = 1500;
+const ruleCases = [
+    { L: 99, H: 100, t1: 30, t2: 60 },
+    { L: 100, H: 101, t1: 0, t2: 30 },
+    { L: 101, H: 103, t1: 60, t2: 90 },
+    { L: 95, H: 105, t1: 10, t2: 40 },
+];
+const rules = ['close', 'touch', 'stay', 'avoid'] as const;
+const paths = 4000;
+
+const ruleTable: string[][] = [['Range / Window', ...rules]];
+for (const c of ruleCases) {
+    const row: string[] = [`[${c.L}, ${c.H}] ${c.t1}s-${c.t2}s`];
+    const wins: Record<string, number> = { close: 0, touch: 0, stay: 0, avoid: 0 };
+
+    for (let p = 0; p < paths; p++) {
+        let x = S;
+        let touched = false;
+        let stayed = true;
+        const steps = c.t2 * 10;
+        const stepStd = sigma * Math.sqrt(0.1 / SECONDS);
+        for (let i = 1; i <= steps; i++) {
+            // Box-Muller
+            const z = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+            x += stepStd * z;
+            if (i >= c.t1 * 10) {
+                const inside = x >= c.L && x < c.H;
+                touched = touched || inside;
+                stayed = stayed && inside;
+            }
+        }
+        if (x >= c.L && x < c.H) wins.close++;
+        if (touched) wins.touch++;
+        if (stayed) wins.stay++;
+        if (!touched) wins.avoid++;
+    }
+
+    for (const rule of rules) {
+        const model = BlackScholes.calculateRuleProbability(rule, S, c.L, c.H, c.t1 / SECONDS, c.t2 / SECONDS);
+        row.push(`${model.toFixed(3)} / ${(wins[rule] / paths).toFixed(3)}`);
+    }
+    ruleTable.push(row);
+}
+console.table(ruleTable);
@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { MemoryAccountStore } from '../storage/MemoryAccountStore';
+import { MemoryLedger } from '../storage/MemoryLedger';
+import { reconcileLedger } from '../storage/reconcile';
+import { HOUSE_ACCOUNT, LedgerEntry, playerAccount } from '../storage/Ledger';
+
+// Ledger reconciliation: balances against ledger totals, and the hash chain
+
+let failed = 0;
+async function check(name: string, fn: () => Promise<void>) {
+    try {
+        await fn();
+        console.log(`ok   ${name}`);
+    } catch (e: any) {
+        failed++;
+        console.log(`FAIL ${name}: ${e.message}`);
+    }
+}
+
+/** One player who opened with 1000, bet 100 and won 250 */
+async function setup() {
+    const accounts = new MemoryAccountStore();
+    const ledger = new MemoryLedger();
+    const { created } = await accounts.getOrCreateAccount('p1', 1000);
+    assert.ok(created);
+    assert.ok(!(await accounts.getOrCreateAccount('p1', 1000)).created);
+
+    const player = playerAccount('p1');
+    await ledger.append({ type: 'opening_balance', debit: HOUSE_ACCOUNT, credit: player, amount: 1000, accountId: 'p1', balanceAfter: 1000 });
+    await ledger.append({ type: 'bet_debit', debit: player, credit: HOUSE_ACCOUNT, amount: 100, accountId: 'p1', betId: 'b1', balanceAfter: 900 });
+    await ledger.append({ type: 'payout_credit', debit: HOUSE_ACCOUNT, credit: player, amount: 250, accountId: 'p1', betId: 'b1', balanceAfter: 1150 });
+    await accounts.updateBalance('p1', 1150);
+    return { accounts, ledger };
+}
+
+(async () => {
+    await check('matching balances reconcile', async () => {
+        const { accounts, ledger } = await setup();
+        const result = await reconcileLedger(accounts, ledger);
+        assert.ok(result.reconciled);
+        assert.ok(result.chainValid);
+        assert.deepStrictEqual(result.accounts.map(a => [a.accountId, a.ledgerTotal, a.difference]), [['p1', 1150, 0]]);
+    });
+
+    await check('a balance changed outside the ledger is reported', async () => {
+        const { accounts, ledger } = await setup();
+        await accounts.updateBalance('p1', 1200);
+        const result = await reconcileLedger(accounts, ledger, 'p1');
+        assert.ok(!result.reconciled);
+        assert.strictEqual(result.accounts[0].difference, 50);
+    });
+
+    await check('an edited entry breaks the hash chain', async () => {
+        const { accounts, ledger } = await setup();
+        const entries = (ledger as unknown as { entries: LedgerEntry[] }).entries;
+        entries[1] = { ...entries[1], amount: 10 };
+        const result = await reconcileLedger(accounts, ledger);
+        assert.ok(!result.chainValid);
+        assert.strictEqual(result.brokenAt, 2);
+        assert.ok(!result.reconciled);
+    });
+
+    if (failed > 0) {
+        console.log(`${failed} ledger check(s) failed`);
+        process.exitCode = 1;
+    }
+})();
@@ -0,0 +1,102 @@
+import assert from 'assert';
+import { RiskEngine, RiskCell } from '../services/RiskEngine';
+
+// Exposure limits of the RiskEngine: cell, column (exclusive vs. additive rules) and room
+
+let failed = 0;
+function check(name: string, fn: () => void) {
+    try {
+        fn();
+        console.log(`ok   ${name}`);
+    } catch (e: any) {
+        failed++;
+        console.log(`FAIL ${name}: ${e.message}`);
+    }
+}
+
+const cell = (id: string, startTime: number, lowPrice: number): RiskCell => ({ id, startTime, lowPrice, highPrice: lowPrice + 10 });
+
+check('cell limit rejects the bet that would exceed it', () => {
+    const risk = new RiskEngine({ maxCellLiability: 500 }, 'close');
+    const a = cell('a', 0, 100);
+    assert.strictEqual(risk.checkBet(a, 100, 6).amount, 100);
+    risk.addBet(a, 100, 6);
+    assert.strictEqual(risk.getCellLiability('a'), 500);
+    const check = risk.checkBet(a, 10, 6);
+    assert.strictEqual(check.amount, 0);
+    assert.strictEqual(check.reason, 'Cell exposure limit reached');
+});
+
+check('close / stay columns count only the largest payout', () => {
+    const risk = new RiskEngine({ maxColumnLiability: 400 }, 'close');
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    // Only one of a / b can win: max(500, 500) - 200 stake = 300
+    assert.strictEqual(risk.checkBet(cell('b', 0, 110), 100, 5).amount, 100);
+    risk.addBet(cell('b', 0, 110), 100, 5);
+    assert.strictEqual(risk.getColumnLiability(0), 300);
+});
+
+check('touch / avoid columns sum every payout', () => {
+    const risk = new RiskEngine({ maxColumnLiability: 400 }, 'touch');
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    // Both may win: 1000 - 200 = 800 > 400
+    const check = risk.checkBet(cell('b', 0, 110), 100, 5);
+    assert.strictEqual(check.amount, 0);
+    assert.strictEqual(check.reason, 'Column exposure limit reached');
+});
+
+check('room limit sums columns and rejects the breaching bet', () => {
+    const risk = new RiskEngine({ maxRoomLiability: 600 }, 'close');
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    assert.strictEqual(risk.getRoomLiability(), 400);
+    const check = risk.checkBet(cell('b', 30, 100), 100, 5);
+    assert.strictEqual(check.amount, 0);
+    assert.strictEqual(check.reason, 'Room exposure limit reached');
+});
+
+check('trim cuts the stake down to what the room limit allows', () => {
+    const risk = new RiskEngine({ maxRoomLiability: 600, breachAction: 'trim' }, 'close');
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    const check = risk.checkBet(cell('b', 30, 100), 100, 5);
+    // 200 liability left at 4 per unit of stake
+    assert.strictEqual(check.amount, 50);
+    risk.addBet(cell('b', 30, 100), check.amount, 5);
+    assert.ok(risk.getRoomLiability() <= 600);
+});
+
+check('open combos count against the room limit', () => {
+    const risk = new RiskEngine({ maxRoomLiability: 600 }, 'close');
+    risk.addCombo(100, 5);
+    assert.strictEqual(risk.getRoomLiability(), 400);
+    assert.strictEqual(risk.checkCombo(100, 5).amount, 0);
+    assert.strictEqual(risk.checkBet(cell('a', 0, 100), 100, 5).reason, 'Room exposure limit reached');
+    risk.releaseCombo(100, 5);
+    assert.strictEqual(risk.getRoomLiability(), 0);
+});
+
+check('custom boxes are summed outside the exclusive columns', () => {
+    const risk = new RiskEngine({ maxRoomLiability: 1000 }, 'close');
+    const box = (id: string): RiskCell => ({ ...cell(id, 0, 95), custom: true });
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    // A box overlapping cell a can win with it: 400 + 400, not max(500, 500) - 200
+    risk.addBet(box('custom:1'), 100, 5);
+    assert.strictEqual(risk.getColumnLiability(0), 400);
+    assert.strictEqual(risk.getCustomLiability(), 400);
+    assert.strictEqual(risk.getRoomLiability(), 800);
+    const check = risk.checkBet(box('custom:2'), 100, 5);
+    assert.strictEqual(check.amount, 0);
+    assert.strictEqual(check.reason, 'Room exposure limit reached');
+});
+
+check('released bets free their liability', () => {
+    const risk = new RiskEngine({}, 'close');
+    risk.addBet(cell('a', 0, 100), 100, 5);
+    risk.releaseBet('a', 100, 5);
+    assert.strictEqual(risk.getRoomLiability(), 0);
+    assert.strictEqual(risk.getExposure().cells.length, 0);
+});
+
+if (failed > 0) {
+    console.log(`${failed} risk check(s) failed`);
+    process.exitCode = 1;
+}
@@ -0,0 +1,57 @@
+import assert from 'assert';
+import { SettlementQueue, CellBetCounts } from '../services/SettlementQueue';
+
+// Ordering of the settlement queue and the per-cell reference counts MarketRoom.update relies on
+
+let failed = 0;
+function check(name: string, fn: () => void) {
+    try {
+        fn();
+        console.log(`ok   ${name}`);
+    } catch (e: any) {
+        failed++;
+        console.log(`FAIL ${name}: ${e.message}`);
+    }
+}
+
+check('popDue returns only due items, earliest first', () => {
+    const queue = new SettlementQueue<number>();
+    const times = Array.from({ length: 500 }, () => Math.floor(Math.random() * 1000));
+    times.forEach(time => queue.push(time, time));
+
+    const due = queue.popDue(499);
+    assert.deepStrictEqual(due, times.filter(t => t <= 499).sort((a, b) => a - b));
+    assert.strictEqual(queue.size, times.filter(t => t > 499).length);
+    assert.ok(queue.peekTime() === undefined || queue.peekTime()! > 499);
+
+    const rest = queue.popDue(Infinity);
+    assert.deepStrictEqual(rest, times.filter(t => t > 499).sort((a, b) => a - b));
+    assert.strictEqual(queue.size, 0);
+    assert.strictEqual(queue.peekTime(), undefined);
+});
+
+check('items pushed after a pop are still ordered', () => {
+    const queue = new SettlementQueue<string>();
+    queue.push(30, 'c');
+    queue.push(10, 'a');
+    assert.deepStrictEqual(queue.popDue(10), ['a']);
+    queue.push(20, 'b');
+    queue.push(5, 'late');
+    assert.deepStrictEqual(queue.popDue(25), ['late', 'b']);
+    assert.deepStrictEqual(queue.popDue(30), ['c']);
+});
+
+check('cell counts report the last release', () => {
+    const counts = new CellBetCounts();
+    counts.add('a');
+    counts.add('a');
+    assert.strictEqual(counts.release('a'), false);
+    assert.ok(counts.has('a'));
+    assert.strictEqual(counts.release('a'), true);
+    assert.ok(!counts.has('a'));
+});
+
+if (failed > 0) {
+    console.log(`${failed} settlement queue check(s) failed`);
+    process.exitCode = 1;
+}
@@ -1,7 +1,8 @@
+import { SettlementRule } from '@trader-master/shared';
 
 export class BlackScholes {
     private static r: number = 0.0; // Risk-free rate (ignored for short-term game)
-    private static sigma: number = 1500; // Volatility (High volatility for fast-paced game logic)
+    private static sigma: number = 1500; // Default absolute volatility when no estimate is supplied
 
     /**
      * Standard Normal Cumulative Distribution Function
@@ -24,8 +25,9 @@ export class BlackScholes {
      * @param L Lower Bound
      * @param H Upper Bound
      * @param T Time to maturity (in years)
+     * @param sigma Absolute volatility (price units per sqrt(year)), defaults to the static sigma
      */
-    static calculateProbability(S: number, L: number, H: number, T: number): number {
+    static calculateProbability(S: number, L: number, H: number, T: number, sigma: number = this.sigma): number {
         if (T <= 0) return 0;
         
         // Normal Distribution Model (Bachelier)
@@ -33,7 +35,7 @@ export class BlackScholes {
         // StdDev = sigma * sqrt(T)
         // Here sigma is treated as Absolute Volatility (price units per sqrt(year))
         
-        const std_dev = this.sigma * Math.sqrt(T);
+        const std_dev = sigma * Math.sqrt(T);
         
         const z_H = (H - S) / std_dev;
         const z_L = (L - S) / std_dev;
@@ -42,6 +44,133 @@ export class BlackScholes {
         return Math.max(0, prob);
     }
 
+    /**
+     * Probability that the price path touches [L, H] at any point during the window [T1, T2]
+     * Price at T1 is integrated over; from there the first-passage probability of
+     * Brownian motion to the nearest edge is 2 * (1 - N(d / (sigma * sqrt(T2 - T1))))
+     * @param S Current Price
+     * @param L Lower Bound
+     * @param H Upper Bound
+     * @param T1 Time until the window opens (in years)
+     * @param T2 Time until the window closes (in years)
+     * @param sigma Absolute volatility (price units per sqrt(year))
+     */
+    static calculateTouchProbability(S: number, L: number, H: number, T1: number, T2: number, sigma: number = this.sigma): number {
+        if (T2 <= 0) return 0;
+        T1 = Math.max(0, T1);
+
+        const windowStdDev = sigma * Math.sqrt(Math.max(0, T2 - T1));
+        const hitFrom = (x: number): number => {
+            if (x >= L && x < H) return 1;
+            if (windowStdDev <= 0) return 0;
+            const distance = x < L ? L - x : x - H;
+            return 2 * (1 - this.cdf(distance / windowStdDev));
+        };
+
+        if (T1 === 0) return hitFrom(S);
+
+        const startStdDev = sigma * Math.sqrt(T1);
+        const lowerTail = Math.min(L, S + 8 * startStdDev);
+        const upperTail = Math.max(H, S - 8 * startStdDev);
+
+        const inside = this.cdf((H - S) / startStdDev) - this.cdf((L - S) / startStdDev);
+        const below = this.integrateNormal(S, startStdDev, S - 8 * startStdDev, lowerTail, hitFrom);
+        const above = this.integrateNormal(S, startStdDev, upperTail, S + 8 * startStdDev, hitFrom);
+
+        return Math.min(1, Math.max(0, inside + below + above));
+    }
+
+    /**
+     * Probability that the price path stays inside [L, H] for the whole window [T1, T2]
+     * Uses the double-barrier survival probability of Brownian motion
+     * @param S Current Price
+     * @param L Lower Bound
+     * @param H Upper Bound
+     * @param T1 Time until the window opens (in years)
+     * @param T2 Time until the window closes (in years)
+     * @param sigma Absolute volatility (price units per sqrt(year))
+     */
+    static calculateStayProbability(S: number, L: number, H: number, T1: number, T2: number, sigma: number = this.sigma): number {
+        if (T2 <= 0 || H <= L) return 0;
+        T1 = Math.max(0, T1);
+
+        const windowStdDev = sigma * Math.sqrt(Math.max(0, T2 - T1));
+        const surviveFrom = (x: number) => this.corridorSurvival(x - L, H - L, windowStdDev);
+
+        if (T1 === 0) return surviveFrom(S);
+
+        const startStdDev = sigma * Math.sqrt(T1);
+        const prob = this.integrateNormal(S, startStdDev, L, H, surviveFrom);
+        return Math.min(1, Math.max(0, prob));
+    }
+
+    /**
+     * Probability of winning a cell under the given settlement rule
+     * @param rule Settlement Rule
+     * @param S Current Price
+     * @param L Lower Bound
+     * @param H Upper Bound
+     * @param T1 Time until the window opens (in years)
+     * @param T2 Time until the window closes (in years)
+     * @param sigma Absolute volatility (price units per sqrt(year))
+     */
+    static calculateRuleProbability(rule: SettlementRule, S: number, L: number, H: number, T1: number, T2: number, sigma: number = this.sigma): number {
+        switch (rule) {
+            case 'stay':
+                return this.calculateStayProbability(S, L, H, T1, T2, sigma);
+            case 'touch':
+                return this.calculateTouchProbability(S, L, H, T1, T2, sigma);
+            case 'avoid':
+                return T2 <= 0 ? 0 : 1 - this.calculateTouchProbability(S, L, H, T1, T2, sigma);
+            case 'close':
+            default:
+                return this.calculateProbability(S, L, H, T2, sigma);
+        }
+    }
+
+    /**
+     * Probability that Brownian motion started at distance y above the lower edge
+     * of a corridor of width a never leaves it, given total std dev s over the window.
+     * Method of images for small s (fast convergence), eigenfunction series otherwise.
+     */
+    private static corridorSurvival(y: number, a: number, s: number): number {
+        if (y <= 0 || y >= a) return 0;
+        if (s <= 0) return 1;
+
+        let prob = 0;
+        if (s < a) {
+            for (let k = -3; k <= 3; k++) {
+                const shift = 2 * k * a;
+                prob += this.cdf((a - y + shift) / s) - this.cdf((shift - y) / s)
+                    - this.cdf((a + y + shift) / s) + this.cdf((y + shift) / s);
+            }
+        } else {
+            for (let n = 1; n <= 15; n += 2) {
+                prob += 4 / (n * Math.PI) * Math.sin(n * Math.PI * y / a)
+                    * Math.exp(-Math.pow(n * Math.PI * s / a, 2) / 2);
+            }
+        }
+        return Math.min(1, Math.max(0, prob));
+    }
+
+    /**
+     * Integrate f(x) * N(x; mean, stdDev) over [a, b] with Simpson's rule
+     */
+    private static integrateNormal(mean: number, stdDev: number, a: number, b: number, f: (x: number) => number, steps: number = 64): number {
+        if (b <= a) return 0;
+        const h = (b - a) / steps;
+        const weighted = (x: number) => {
+            const z = (x - mean) / stdDev;
+            return f(x) * Math.exp(-z * z / 2) / (stdDev * Math.sqrt(2 * Math.PI));
+        };
+
+        let sum = weighted(a) + weighted(b);
+        for (let i = 1; i < steps; i++) {
+            sum += weighted(a + i * h) * (i % 2 === 0 ? 2 : 4);
+        }
+        return sum * h / 3;
+    }
+
     static calculateOdds(probability: number): number {
         if (probability <= 0.01) return 99; // Cap max odds
         if (probability >= 0.99) return 1.01; // Min odds
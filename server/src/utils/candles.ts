@@ -0,0 +1,52 @@
+import { Candle } from '@trader-master/shared';
+
+/**
+ * Start time of the timeframe bucket a candle time falls into
+ */
+export function bucketTime(time: number, timeframe: number): number {
+    return Math.floor(time / timeframe) * timeframe;
+}
+
+/**
+ * Fold a newer 1s candle into an aggregated series (oldest first), extending the last bucket
+ * or opening a new one. Returns the bucket that was updated.
+ */
+export function mergeCandle(series: Candle[], candle: Candle, timeframe: number, limit: number = Infinity): Candle {
+    const time = bucketTime(candle.time, timeframe);
+    const last = series[series.length - 1];
+
+    if (last && last.time === time) {
+        last.high = Math.max(last.high, candle.high);
+        last.low = Math.min(last.low, candle.low);
+        last.close = candle.close;
+        if (last.synthetic && !candle.synthetic) {
+            delete last.synthetic;
+        }
+        if (last.gap && !candle.gap) {
+            delete last.gap;
+        }
+        return last;
+    }
+
+    const bucket: Candle = { time, open: candle.open, high: candle.high, low: candle.low, close: candle.close };
+    if (candle.synthetic) {
+        bucket.synthetic = true;
+    }
+    if (candle.gap) {
+        bucket.gap = true;
+    }
+    series.push(bucket);
+    if (series.length > limit) {
+        series.splice(0, series.length - limit);
+    }
+    return bucket;
+}
+
+/**
+ * Aggregate 1s candles (oldest first) into a coarser timeframe
+ */
+export function aggregateCandles(candles: Candle[], timeframe: number, limit: number = Infinity): Candle[] {
+    const series: Candle[] = [];
+    candles.forEach(candle => mergeCandle(series, candle, timeframe, limit));
+    return series;
+}
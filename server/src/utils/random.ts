@@ -0,0 +1,60 @@
+
+/**
+ * Seedable pseudo random number generator (mulberry32).
+ * The same seed always yields the same sequence, which makes simulated sessions reproducible.
+ */
+export class SeededRandom {
+    private state: number;
+    private spareGaussian: number | null = null;
+
+    constructor(seed: number = Date.now()) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Uniform random number in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Normally distributed random number (Box-Muller transform)
+     * @param mean Mean of the distribution
+     * @param stdDev Standard deviation of the distribution
+     */
+    gaussian(mean: number = 0, stdDev: number = 1): number {
+        if (this.spareGaussian !== null) {
+            const z = this.spareGaussian;
+            this.spareGaussian = null;
+            return mean + stdDev * z;
+        }
+
+        let u = 0;
+        while (u === 0) u = this.next();
+        const v = this.next();
+        const r = Math.sqrt(-2 * Math.log(u));
+        this.spareGaussian = r * Math.sin(2 * Math.PI * v);
+        return mean + stdDev * r * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Poisson distributed random count (Knuth's method, fine for small lambda)
+     * @param lambda Expected number of events
+     */
+    poisson(lambda: number): number {
+        if (lambda <= 0) return 0;
+        const limit = Math.exp(-lambda);
+        let k = 0;
+        let p = 1;
+        do {
+            k++;
+            p *= this.next();
+        } while (p > limit);
+        return k - 1;
+    }
+}
@@ -0,0 +1,36 @@
+import { Candle, SettlementRule } from '@trader-master/shared';
+
+/**
+ * Decides whether a cell [low, high) wins given the candles observed inside its window
+ */
+export type SettlementEngine = (path: Candle[], low: number, high: number) => boolean;
+
+const candleTouches = (candle: Candle, low: number, high: number) =>
+    candle.high >= low && candle.low < high;
+
+const candleInside = (candle: Candle, low: number, high: number) =>
+    candle.low >= low && candle.high < high;
+
+export const settlementEngines: Record<SettlementRule, SettlementEngine> = {
+    // A: the price must stay inside the cell for the whole window
+    stay: (path, low, high) => path.length > 0 && path.every(c => candleInside(c, low, high)),
+    // B: any touch of the cell wins
+    touch: (path, low, high) => path.some(c => candleTouches(c, low, high)),
+    // C: the closing price of the window must be inside the cell
+    // Use [Low, High) for inclusive low, exclusive high to prevent double wins on boundary
+    close: (path, low, high) => {
+        if (path.length === 0) return false;
+        const close = path[path.length - 1].close;
+        return close >= low && close < high;
+    },
+    // D: the price must never touch the cell (barrier)
+    avoid: (path, low, high) => path.length > 0 && !path.some(c => candleTouches(c, low, high)),
+};
+
+export function isWinningPath(rule: SettlementRule, path: Candle[], low: number, high: number): boolean {
+    const engine = settlementEngines[rule];
+    if (!engine) {
+        throw new Error(`Unknown settlement rule: ${rule}`);
+    }
+    return engine(path, low, high);
+}
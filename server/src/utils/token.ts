@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+/**
+ * Verified identity carried by a token; becomes `client.auth` in rooms
+ */
+export interface AuthUser {
+    /** Stable account id (players and bets are keyed by it) */
+    userId: string;
+    name: string;
+    guest: boolean;
+}
+
+interface TokenPayload {
+    sub: string;
+    name: string;
+    guest: boolean;
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Display name of a guest account, derived from its id
+ */
+export function guestName(userId: string): string {
+    return `Guest-${userId.slice(6, 12)}`;
+}
+
+/** Token lifetime in seconds (30 days) */
+export const TOKEN_TTL = 30 * 24 * 3600;
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+const SECRET = resolveSecret();
+
+function resolveSecret(): string {
+    if (process.env.AUTH_SECRET) {
+        return process.env.AUTH_SECRET;
+    }
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error("AUTH_SECRET must be set in production");
+    }
+    console.warn("AUTH_SECRET is not set: using a random secret, tokens will not survive a restart");
+    return crypto.randomBytes(32).toString('hex');
+}
+
+function base64url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', SECRET).update(data).digest('base64url');
+}
+
+/**
+ * Issue a signed HS256 JWT for the given user
+ */
+export function signToken(user: AuthUser, ttl: number = TOKEN_TTL): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: TokenPayload = { sub: user.userId, name: user.name, guest: user.guest, iat, exp: iat + ttl };
+    const body = `${HEADER}.${base64url(JSON.stringify(payload))}`;
+    return `${body}.${sign(body)}`;
+}
+
+/**
+ * Check the signature and expiry of a token.
+ * Returns null for anything malformed, forged or expired.
+ */
+export function verifyToken(token: string | undefined): AuthUser | null {
+    if (!token) return null;
+
+    const parts = token.split('.');
+    if (parts.length !== 3 || parts[0] !== HEADER) return null;
+
+    const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`));
+    const actual = Buffer.from(parts[2]);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as TokenPayload;
+        if (typeof payload.sub !== 'string' || !payload.sub || payload.exp * 1000 <= Date.now()) {
+            return null;
+        }
+        return { userId: payload.sub, name: payload.name || payload.sub, guest: !!payload.guest };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,97 @@
+import { Candle, VolatilityConfig } from '@trader-master/shared';
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * Per-room realized volatility estimator over 1s candle closes.
+ *
+ * Keeps both an EWMA and a rolling-window variance of log returns and reports
+ * the selected one as an annualized relative volatility, clamped to [floor, cap].
+ * When confWeight > 0 the Pyth confidence interval (treated as a one-second
+ * standard deviation) is blended into the variance.
+ */
+export class VolatilityEstimator {
+    private readonly method: 'ewma' | 'rolling';
+    private readonly lambda: number;
+    private readonly window: number;
+    private readonly floor: number;
+    private readonly cap: number;
+    private readonly confWeight: number;
+
+    private lastClose: number | null = null;
+    private ewmaVariance: number | null = null;
+    private returns: number[] = [];
+    private sumSquares: number = 0;
+    private confVariance: number | null = null;
+
+    constructor(config: VolatilityConfig = {}) {
+        this.method = config.method || 'ewma';
+        this.lambda = config.lambda ?? 0.97;
+        this.window = config.window ?? 300;
+        this.floor = config.floor ?? 0.05;
+        this.cap = config.cap ?? 5;
+        this.confWeight = Math.min(1, Math.max(0, config.confWeight ?? 0));
+    }
+
+    /**
+     * Rebuild the estimate from a candle history (oldest first)
+     */
+    seed(history: Candle[]) {
+        this.lastClose = null;
+        this.ewmaVariance = null;
+        this.returns = [];
+        this.sumSquares = 0;
+
+        history.forEach(candle => this.update(candle));
+    }
+
+    update(candle: Candle) {
+        if (this.lastClose !== null && this.lastClose > 0 && candle.close > 0) {
+            const r = Math.log(candle.close / this.lastClose);
+            const squared = r * r;
+
+            this.ewmaVariance = this.ewmaVariance === null
+                ? squared
+                : this.lambda * this.ewmaVariance + (1 - this.lambda) * squared;
+
+            this.returns.push(squared);
+            this.sumSquares += squared;
+            if (this.returns.length > this.window) {
+                this.sumSquares -= this.returns.shift()!;
+            }
+        }
+        this.lastClose = candle.close;
+    }
+
+    /**
+     * Feed the latest Pyth confidence interval
+     */
+    updateConfidence(conf: number, price: number) {
+        if (price <= 0 || conf < 0) return;
+        const relative = conf / price;
+        this.confVariance = relative * relative;
+    }
+
+    /**
+     * Annualized relative volatility (e.g. 0.2 = 20%)
+     */
+    getVolatility(): number {
+        let variance = this.method === 'rolling'
+            ? (this.returns.length > 0 ? this.sumSquares / this.returns.length : 0)
+            : (this.ewmaVariance ?? 0);
+
+        if (this.confWeight > 0 && this.confVariance !== null) {
+            variance = (1 - this.confWeight) * variance + this.confWeight * this.confVariance;
+        }
+
+        const annualized = Math.sqrt(variance * SECONDS_PER_YEAR);
+        return Math.min(this.cap, Math.max(this.floor, annualized));
+    }
+
+    /**
+     * Absolute volatility in price units per sqrt(year), as used by the Bachelier model
+     */
+    getAbsoluteSigma(price: number): number {
+        return this.getVolatility() * price;
+    }
+}
@@ -4,4 +4,29 @@ export const PREDICTION_PRICE_HEIGHT = 1; // 预测价格高度（价格单位
 export const PREDICTION_GENERATION_INTERVAL = 30; // 预测生成间隔（秒）（若不重叠则匹配持续时间，若重叠则更小）
 export const PREDICTION_LAYERS = 12; // 预测层数（上下层数）
 export const PREDICTION_INITIAL_COLUMNS = 16; // 初始预生成列数（覆盖图表右侧区域）
+export const CELL_BAND_SIGMA = 3; // 按标准差生成预测单元时的默认倍数
 export const PREDICTION_BET_LOCK_WINDOW = 40; // 投注锁定窗口（秒）（必须在格子开始时间前多少秒完成投注，防止临期投注）
+export const PREDICTION_REPRICE_INTERVAL = 1; // 赔率重新计算间隔（秒）（未锁定的格子按当前价格和剩余时间重新定价）
+export const TICK_SIZE = 0.01; // 默认最小价格变动单位
+export const SETTLEMENT_RULE = 'close'; // 默认结算规则（收盘价在格子内）
+export const FEED_STALE_AFTER = 10; // 超过多少秒未收到价格即暂停下注
+export const FEED_MAX_CONF_RATIO = 0.01; // 置信区间与价格之比超过该值即暂停下注
+export const FEED_RESUME_AFTER = 5; // 行情恢复正常持续多少秒后重新开放下注
+export const PLAYER_INITIAL_BALANCE = 10000; // 新账户初始余额
+export const MIN_BET = 10; // 单笔最小押注金额
+export const MAX_BET = 1000; // 单笔最大押注金额
+export const STAKE_PRESETS = [10, 50, 100, 500]; // 下注面板快捷筹码
+export const CUSTOM_BOX_MIN_DURATION = 5; // 自绘区域最短时长（秒）
+export const CUSTOM_BOX_MAX_DURATION = 300; // 自绘区域最长时长（秒）
+export const CUSTOM_BOX_MAX_HORIZON = 600; // 自绘区域开始时间最远在当前时间之后多少秒
+export const QUOTE_TTL = 5; // 询价报价有效期（秒）
+export const COMBO_MARGIN = 0.1; // 串关抽水比例（从各腿赔率乘积中扣除）
+export const COMBO_MAX_LEGS = 5; // 串关最大腿数
+export const TIMEFRAMES = [1, 5, 15, 60, 300]; // 可选K线周期（秒），1 秒为基础序列，其余由其聚合
+export const CANDLE_SERIES_LIMIT = 2000; // 每个聚合周期保留的K线根数
+export const VIEWPORT_MARGIN = 0.5; // 视口外额外同步预测单元的范围（按视口宽、高的比例）
+export const LEADERBOARD_SIZE = 10; // 排行榜显示人数
+export const LEADERBOARD_MIN_BETS = 5; // 参与收益率 / 胜率排名的最少已结算押注数
+export const LEADERBOARD_INTERVAL = 5; // 房间排行榜刷新间隔（秒）
+export const BET_CANCEL_FEE = 0.02; // 撤单手续费比例（仅锁定窗口之前可撤单）
+export const CASH_OUT_MARGIN = 0.05; // 提前兑现折价比例（在模型公允价值基础上扣除）
@@ -4,8 +4,22 @@ export interface Candle {
   high: number;
   low: number;
   close: number;
+  /** 启动时没有已存储的真实行情，由服务端随机生成的占位K线 */
+  synthetic?: boolean;
+  /** 该秒内没有发布时间落在其中的价格，沿用上一收盘价补齐，不参与结算 */
+  gap?: boolean;
 }
 
+/**
+ * 押注状态
+ * - pending: 等待结算
+ * - won / lost: 已结算
+ * - refunded: 时间段未被完整观测（如服务重启、行情中断），退还本金
+ * - cancelled: 玩家在锁定窗口前撤单，退还本金（扣除手续费）
+ * - cashed_out: 玩家提前按公允价值兑现
+ */
+export type BetStatus = 'pending' | 'won' | 'lost' | 'refunded' | 'cancelled' | 'cashed_out';
+
 export interface BetData {
     id: string;
     cellId: string;
@@ -18,6 +32,43 @@ export interface BetData {
     payout: number;
     status: string;
     ownerId: string;
+    /** 玩家自绘区域（询价）押注 */
+    custom?: boolean;
+    /** 下注时的市场价格 */
+    entryPrice?: number;
+}
+
+/**
+ * 串关单腿状态
+ * - pending: 等待该时间段结束
+ * - won / lost: 已结算
+ * - void: 前一腿已输，不再结算
+ */
+export type ComboLegStatus = 'pending' | 'won' | 'lost' | 'void';
+
+export interface ComboLegData {
+    cellId: string;
+    startTime: number;
+    endTime: number;
+    highPrice: number;
+    lowPrice: number;
+    /** 下注时该格子的赔率 */
+    odds: number;
+    status: string;
+}
+
+/**
+ * 串关押注：按时间顺序跨连续列的多个格子，全部命中才赢，
+ * 赔率为各腿赔率之积再扣除串关抽水
+ */
+export interface ComboBetData {
+    id: string;
+    legs: ComboLegData[];
+    amount: number;
+    odds: number;
+    payout: number;
+    status: string;
+    ownerId: string;
 }
 
 export interface PredictionCellData {
@@ -37,9 +88,222 @@ export interface PlayerData {
     connected: boolean;
 }
 
+/**
+ * 押注历史记录（单注或串关），附带所属品种 / 房间和下注、结算时间（毫秒）
+ */
+export type BetHistoryRecord = (
+    | (BetData & { kind: 'bet' })
+    | (ComboBetData & { kind: 'combo' })
+) & {
+    symbol: string;
+    roomId: string;
+    createdAt: number;
+    settledAt?: number;
+};
+
+export interface BetHistoryPage {
+    total: number;
+    offset: number;
+    limit: number;
+    items: BetHistoryRecord[];
+}
+
+/**
+ * 按赔率区间 / 距下注时价格的远近分组的胜率统计
+ */
+export interface AnalyticsBucket {
+    label: string;
+    bets: number;
+    wins: number;
+    winRate: number;
+    pnl: number;
+}
+
+export interface BetAnalytics {
+    bets: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    staked: number;
+    pnl: number;
+    roi: number;
+    averageStake: number;
+    /** 按结算时间累计的盈亏曲线 */
+    pnlCurve: { time: number; pnl: number }[];
+    byOdds: AnalyticsBucket[];
+    /** 格子中点距下注时价格的距离，以格子高度为单位（仅单注） */
+    byDistance: AnalyticsBucket[];
+}
+
+/**
+ * 排行榜统计周期：session（房间本次运行 / 服务器本次启动以来）、day（UTC 当日）、all（全部）
+ */
+export type LeaderboardPeriod = 'session' | 'day' | 'all';
+
+/**
+ * 排行榜排序指标：净盈亏、收益率、胜率
+ */
+export type LeaderboardMetric = 'pnl' | 'roi' | 'winRate';
+
+export interface LeaderboardEntry {
+    rank: number;
+    accountId: string;
+    name: string;
+    /** 已结算押注数（含串关） */
+    bets: number;
+    wins: number;
+    losses: number;
+    /** 总押注金额 */
+    staked: number;
+    /** 净盈亏（返还金额 - 押注金额） */
+    pnl: number;
+    /** 收益率 pnl / staked */
+    roi: number;
+    /** 胜率 wins / (wins + losses) */
+    winRate: number;
+}
+
+export interface Leaderboard {
+    period: LeaderboardPeriod;
+    metric: LeaderboardMetric;
+    entries: LeaderboardEntry[];
+}
+
+/**
+ * 房间内同步的排行榜：按周期和指标分别排名
+ */
+export type RoomLeaderboards = Record<LeaderboardPeriod, Record<LeaderboardMetric, LeaderboardEntry[]>>;
+
+export type PriceFeedProvider = 'pyth' | 'simulated' | 'replay';
+
+export interface PythFeedConfig {
+    provider: 'pyth';
+    /** Pyth 价格 ID（缺省时按 symbol 查找） */
+    priceId?: string;
+}
+
+export interface SimulatedFeedConfig {
+    provider: 'simulated';
+    /** 初始价格 */
+    startPrice?: number;
+    /** 年化漂移率（几何布朗运动 mu） */
+    drift?: number;
+    /** 年化波动率（几何布朗运动 sigma） */
+    volatility?: number;
+    /** 平均每小时跳跃次数（0 表示不跳跃） */
+    jumpIntensity?: number;
+    /** 跳跃幅度（对数收益）均值 */
+    jumpMean?: number;
+    /** 跳跃幅度（对数收益）标准差 */
+    jumpStdDev?: number;
+    /** 随机种子（相同种子产生相同走势） */
+    seed?: number;
+    /** 价格推送间隔（毫秒） */
+    updateInterval?: number;
+}
+
+export interface ReplayFeedConfig {
+    provider: 'replay';
+    /** 录制文件路径（CSV 或 JSONL，逐笔成交或 1 秒 K 线），相对路径基于服务端工作目录 */
+    file: string;
+    /** 文件格式（缺省时按扩展名判断） */
+    format?: 'csv' | 'jsonl';
+    /** 从文件第一条记录起跳过的秒数 */
+    startOffset?: number;
+    /** 回放速度倍数（1 为实时） */
+    speed?: number;
+    /** 播放结束后是否从头循环 */
+    loop?: boolean;
+}
+
+export type PriceFeedConfig = PythFeedConfig | SimulatedFeedConfig | ReplayFeedConfig;
+
+export interface VolatilityConfig {
+    /** 估计方法：ewma 指数加权 / rolling 滚动窗口 */
+    method?: 'ewma' | 'rolling';
+    /** EWMA 衰减系数（0-1，越大越平滑） */
+    lambda?: number;
+    /** 滚动窗口长度（秒） */
+    window?: number;
+    /** 年化波动率下限 */
+    floor?: number;
+    /** 年化波动率上限 */
+    cap?: number;
+    /** Pyth 置信区间混合权重（0 表示不使用） */
+    confWeight?: number;
+}
+
+/**
+ * 预测单元生成的价格范围（以当前价格为中心），价格偏离后按需补充新的层
+ */
+export interface CellBandConfig {
+    /** layers: 上下各固定层数 / sigma: 按该列结束时的价格标准差倍数 */
+    mode?: 'layers' | 'sigma';
+    /** 当前价格上下各生成的层数（mode 为 layers 时，缺省为默认显示层数） */
+    layers?: number;
+    /** 标准差倍数（mode 为 sigma 时） */
+    sigma?: number;
+}
+
+/**
+ * 行情熔断：价格源中断或置信区间过宽时暂停下注，并退还结算时间段与中断重叠的押注
+ */
+export interface FeedGuardConfig {
+    /** 超过多少秒未收到价格即视为中断 */
+    staleAfter?: number;
+    /** 置信区间与价格之比的上限，超过即暂停 */
+    maxConfRatio?: number;
+    /** 行情恢复正常持续多少秒后重新开放下注 */
+    resumeAfter?: number;
+}
+
+/**
+ * 玩家自绘区域（询价 RFQ）限制
+ */
+export interface CustomBoxConfig {
+    /** 最短时长（秒） */
+    minDuration?: number;
+    /** 最长时长（秒） */
+    maxDuration?: number;
+    /** 开始时间最远可在当前时间之后多少秒 */
+    maxHorizon?: number;
+    /** 最小价格高度（价格单位，缺省为格子高度的一半） */
+    minHeight?: number;
+    /** 最大价格高度（价格单位，缺省为格子高度的 10 倍） */
+    maxHeight?: number;
+    /** 报价有效期（秒） */
+    quoteTtl?: number;
+}
+
+export interface RiskConfig {
+    /** 单个格子最大净赔付（庄家最坏情况亏损） */
+    maxCellLiability?: number;
+    /** 单列（同一时间段）最大净赔付 */
+    maxColumnLiability?: number;
+    /** 整个房间最大净赔付 */
+    maxRoomLiability?: number;
+    /** 超限处理：reject 拒绝 / trim 削减到可接受金额 */
+    breachAction?: 'reject' | 'trim';
+    /** 单边押注时赔率最大下调比例（0-1，格子敞口达到上限时生效） */
+    oddsSkew?: number;
+}
+
+/**
+ * 结算规则
+ * - stay: 价格在整个时间段内必须停留在格子内（规则 A）
+ * - touch: 价格在时间段内触碰格子即赢（规则 B）
+ * - close: 时间段结束时的收盘价在格子内（规则 C）
+ * - avoid: 价格在时间段内不能触碰格子（规则 D，障碍物模式）
+ */
+export type SettlementRule = 'stay' | 'touch' | 'close' | 'avoid';
+
 export interface MarketRoomConfig {
     roomName: string;
     symbol: string;
+    /** 价格源配置（默认 Pyth 实时行情） */
+    priceFeed?: PriceFeedConfig;
+    /** 标的最小价格变动单位（缺省取品种配置） */
+    tickSize?: number;
     /** 预测持续时长（秒） */
     predictionDuration?: number;
     /** 预测价格高度（价格单位） */
@@ -50,8 +314,36 @@ export interface MarketRoomConfig {
     predictionLayers?: number;
     /** 初始预生成列数（覆盖图表右侧区域） */
     predictionInitialColumns?: number;
+    /** 预测单元生成的价格范围 */
+    cellBand?: CellBandConfig;
     /** 投注锁定窗口（秒）（必须在格子开始时间前多少秒完成投注，防止临期投注） */
     predictionBetLockWindow?: number;
+    /** 赔率重新计算间隔（秒）（未锁定的格子按当前价格和剩余时间重新定价） */
+    predictionRepriceInterval?: number;
+    /** 结算规则 */
+    settlementRule?: SettlementRule;
+    /** 行情熔断配置 */
+    feedGuard?: FeedGuardConfig;
+    /** 波动率估计配置（驱动赔率计算） */
+    volatility?: VolatilityConfig;
+    /** 庄家风险敞口限制 */
+    risk?: RiskConfig;
+    /** 单笔最小押注金额 */
+    minBet?: number;
+    /** 单笔最大押注金额 */
+    maxBet?: number;
+    /** 下注面板快捷筹码 */
+    stakePresets?: number[];
+    /** 玩家自绘区域（询价）限制 */
+    customBox?: CustomBoxConfig;
+    /** 串关抽水比例（从各腿赔率乘积中扣除） */
+    comboMargin?: number;
+    /** 串关最大腿数 */
+    comboMaxLegs?: number;
+    /** 撤单手续费比例 */
+    cancelFee?: number;
+    /** 提前兑现折价比例 */
+    cashOutMargin?: number;
 }
 
 export * from './schema/MarketState';
@@ -1,3 +1,5 @@
+import type { Candle } from "./index";
+
 export enum MessageType {
   PLACE_BET = "place_bet",
   ERROR = "error",
@@ -5,9 +7,113 @@ export enum MessageType {
   BET_RESULT = "bet_result",
   HISTORY = "history",
   PRICE = "price",
+  QUOTE_BET = "quote_bet",
+  BET_QUOTE = "bet_quote",
+  CANCEL_BET = "cancel_bet",
+  CASH_OUT = "cash_out",
+  PLACE_COMBO = "place_combo",
+  COMBO_PLACED = "combo_placed",
+  REQUEST_QUOTE = "request_quote",
+  QUOTE = "quote",
+  ACCEPT_QUOTE = "accept_quote",
+  LEADERBOARD = "leaderboard",
+  SUBSCRIBE_TIMEFRAME = "subscribe_timeframe",
+  CANDLES = "candles",
+  CANDLE = "candle",
+  SET_VIEWPORT = "set_viewport",
+  MARKET_STATUS = "market_status",
 }
 
 export interface PlaceBetPayload {
   amount: number;
   cellId: string;
+  /** Odds the player saw when placing the bet; rejected if the cell has since repriced lower */
+  odds?: number;
+}
+
+export interface PlaceComboPayload {
+  amount: number;
+  /** One cell per consecutive column, in time order */
+  cellIds: string[];
+  /** Combined odds the player saw; rejected if the combo now prices lower */
+  odds?: number;
+}
+
+export interface BetActionPayload {
+  betId: string;
+}
+
+export interface CashOutPayload extends BetActionPayload {
+  /** Cash-out value the player saw; rejected if the current value is lower */
+  value?: number;
+}
+
+/** Current exit prices for a pending bet (null when the action is not available) */
+export interface BetQuote {
+  betId: string;
+  /** Refund if cancelled now (stake minus fee, only outside the lock window) */
+  cancelRefund: number | null;
+  /** Fair-value payout if cashed out now */
+  cashOutValue: number | null;
+}
+
+/** A player-drawn rectangle: [startTime, endTime] x [lowPrice, highPrice) */
+export interface PriceBox {
+  startTime: number;
+  endTime: number;
+  lowPrice: number;
+  highPrice: number;
+}
+
+export interface RequestQuotePayload extends PriceBox {
+  amount: number;
+}
+
+/** Firm, time-limited odds for a custom box */
+export interface Quote extends PriceBox {
+  id: string;
+  amount: number;
+  probability: number;
+  odds: number;
+  /** Unix ms after which the quote can no longer be accepted */
+  expiresAt: number;
+}
+
+export interface AcceptQuotePayload {
+  quoteId: string;
+}
+
+export interface SubscribeTimeframePayload {
+  /** Candle period in seconds, one of TIMEFRAMES */
+  timeframe: number;
+}
+
+/** Visible chart area of a client; only prediction cells in and near it are synced */
+export interface ViewportPayload {
+  /** Unix seconds */
+  fromTime: number;
+  toTime: number;
+  lowPrice: number;
+  highPrice: number;
+}
+
+/** Trading state of the room; betting pauses while the price feed is stale or too uncertain */
+export interface MarketStatusPayload {
+  halted: boolean;
+  /** Why betting is paused (while halted) */
+  reason?: string;
+  /** Unix seconds at which the halt started (while halted) */
+  since?: number;
+}
+
+/** Full series of the subscribed timeframe (reply to SUBSCRIBE_TIMEFRAME) */
+export interface CandlesPayload {
+  timeframe: number;
+  candles: Candle[];
+}
+
+/** The latest (possibly still forming) candle of the subscribed timeframe, sent every tick */
+export interface CandlePayload {
+  timeframe: number;
+  candle: Candle;
 }
@@ -1,4 +1,4 @@
-import { Schema, MapSchema, type } from "@colyseus/schema";
+import { Schema, MapSchema, ArraySchema, type, view } from "@colyseus/schema";
 
 export class Bet extends Schema {
     @type("string") id: string = "";
@@ -12,6 +12,30 @@ export class Bet extends Schema {
     @type("number") payout: number = 0;
     @type("string") status: string = "";
     @type("string") ownerId: string = "";
+    /** Placed on a player-drawn box (via a quote) rather than a grid cell */
+    @type("boolean") custom: boolean = false;
+    /** Market price when the bet was placed */
+    @type("number") entryPrice: number = 0;
+}
+
+export class ComboLeg extends Schema {
+    @type("string") cellId: string = "";
+    @type("number") startTime: number = 0;
+    @type("number") endTime: number = 0;
+    @type("number") highPrice: number = 0;
+    @type("number") lowPrice: number = 0;
+    @type("number") odds: number = 0;
+    @type("string") status: string = "";
+}
+
+export class ComboBet extends Schema {
+    @type("string") id: string = "";
+    @type([ComboLeg]) legs = new ArraySchema<ComboLeg>();
+    @type("number") amount: number = 0;
+    @type("number") odds: number = 0;
+    @type("number") payout: number = 0;
+    @type("string") status: string = "";
+    @type("string") ownerId: string = "";
 }
 
 export class PredictionCell extends Schema {
@@ -25,14 +49,20 @@ export class PredictionCell extends Schema {
 }
 
 export class Player extends Schema {
+    /** Verified user id (stable across sessions and reconnects) */
     @type("string") id: string = "";
+    @type("string") name: string = "";
     @type("number") balance: number = 0;
     @type("boolean") connected: boolean = true;
     @type({ map: Bet }) bets = new MapSchema<Bet>();
+    @type({ map: ComboBet }) combos = new MapSchema<ComboBet>();
 }
 
 export class MarketState extends Schema {
     @type("number") currentPrice: number = 0;
-    @type({ map: PredictionCell }) predictionCells = new MapSchema<PredictionCell>();
-    @type({ map: Player }) players = new MapSchema<Player>();
+    @type("number") volatility: number = 0;
+    /** Each client only receives the cells around its viewport (see SET_VIEWPORT) */
+    @view() @type({ map: PredictionCell }) predictionCells = new MapSchema<PredictionCell>();
+    /** Each client only receives its own player, with its bets */
+    @view() @type({ map: Player }) players = new MapSchema<Player>();
 }